@@ -125,9 +125,9 @@ bot.addNetwork( freenode )
        target_channel: '#kwirk-e',
        prefix_source: true
      })
-     // reject messages based on criteria
+     // reject messages based on criteria, here by hostmask, wildcards and case mapping are understood
      .reject( function( message ) {
-       return message.nick === 'loudmouth';
+       return message.user && message.user.matches( 'loudmouth!*@*.example.com' );
      });
    }
 );
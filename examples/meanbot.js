@@ -50,15 +50,19 @@ var undernet = {
 // add network
 bot.addNetwork( undernet )
 .addNetwork( freenode )
+// '!op' in a channel, or 'op' in a private message, '!help' lists the commands
+.command( { name: 'op', description: 'Ask for ops' }, function( response, args, message ) {
+  if ( message.channel )
+    message.channel.op( message.user );
+  else
+    response.reply( 'We are all equals in this realm' );
+})
 // listen for a message from any network
 .on( 'message::*', function( message ) {
 
-  if ( message.content.startsWith('!op') ) {
-    if ( message.channel )
-      return message.target.op( message.user );
-    else
-      return message.target.say( 'We are all equals in this realm' );
-  }
+  // commands are answered above
+  if ( bot.commands.parse( message ) )
+    return;
 
   // someone joined
   if ( message.join() ) {
@@ -5,6 +5,7 @@ import { Network } from './networks/base/network';
 import { EventEmitter } from './utilities/events';
 import { Server } from './networks/base/server';
 import { Logger } from './utilities/logger';
+import { Commands, ICommandOptions, ICommandHandler } from './messaging/commands';
 import { Router } from './messaging/router';
 import { Timer } from './utilities/timer';
 var Color = require( './utilities/color' );
@@ -22,6 +23,7 @@ export class Bot extends EventEmitter implements IBot {
     public timers: { [ network: string ]: Timer[] } = {};
     public Logger = Logger;
     public router: Router;
+    public commands: Commands;
     public Timer = Timer;
     public Color = Color;
 
@@ -40,6 +42,19 @@ export class Bot extends EventEmitter implements IBot {
       this.setupListeners();
 
       this.router = new Router( this );
+      this.commands = new Commands( this );
+    }
+
+    /**
+    * Add a command, triggered in channels with the network trigger, e.g. '!op nick'
+    * @param <ICommandOptions> options: The name, aliases, argument spec and flags required
+    * @param <ICommandHandler> handler: Called with the response, the arguments and the message
+    * @return <Bot>
+    */
+    public command( options: ICommandOptions, handler: ICommandHandler ): Bot {
+      this.commands.register( options, handler );
+
+      return this;
     }
 
     /**
@@ -282,6 +297,7 @@ export interface IBot {
   network: { [ network: string ]: AnyNet };
 
   addNetwork( nets: IAnyNet, callback?: Function ): Bot;
+  command( options: ICommandOptions, handler: ICommandHandler ): Bot;
   getNetwork( network: string ): AnyNet;
   networkExists( network: AnyNet ): boolean;
   networkExists( name: string ): boolean;
@@ -323,6 +323,14 @@ export module Constants {
     // of processing a WHOIS message.
     RPL_WHOISCHANNELS = 319,
 
+    // RPL_WHOISACCOUNT is sent in reply to WHOIS when the user is logged
+    // in to a services account
+    RPL_WHOISACCOUNT  = 330,
+
+    // RPL_WHOISSECURE is sent in reply to WHOIS when the user is connected
+    // using TLS
+    RPL_WHOISSECURE   = 671,
+
     /**
     * @todo Document this constant
     */
@@ -366,6 +374,9 @@ export module Constants {
     // else RPL_NOTOPIC.
     RPL_TOPIC = 332,
 
+    // Sent after RPL_TOPIC with who set the topic, and when, in seconds
+    RPL_TOPICWHOTIME = 333,
+
     // Returned by the server to indicate that the attempted INVITE message
     // was successful and is being passed onto the end client.
     RPL_INVITING = 341,
@@ -374,6 +385,16 @@ export module Constants {
     // is summoning that user.
     RPL_SUMMONING = 342,
 
+    // Sent for each invite exception in reply to MODE #channel +I, the
+    // list ends with RPL_ENDOFINVITELIST
+    RPL_INVITELIST      = 346,
+    RPL_ENDOFINVITELIST = 347,
+
+    // Sent for each ban exception in reply to MODE #channel +e, the
+    // list ends with RPL_ENDOFEXCEPTLIST
+    RPL_EXCEPTLIST      = 348,
+    RPL_ENDOFEXCEPTLIST = 349,
+
     // Reply by the server showing its version details. The &lt;version&gt;
     // is the version of the software being used (including any patchlevel
     // revisions) and the &lt;debuglevel&gt; is used to indicate if the
@@ -772,6 +793,11 @@ export module Constants {
     */
     RPL_SASLLOGIN = 900,
 
+    /**
+    * Sent when we are logged out of our services account
+    */
+    RPL_SASLLOGOUT = 901,
+
     /**
     * @todo Document this constant
     */
@@ -797,6 +823,9 @@ export module Constants {
     */
     RPL_SASLALREADYAUTH = 907,
 
+    // The mechanisms the server supports, sent when the requested one is not
+    RPL_SASLMECHS = 908,
+
     /**
     * @todo Document these constants
     */
@@ -807,6 +836,15 @@ export module Constants {
     NOTICE  = <any>'NOTICE',
     PRIVMSG = <any>'PRIVMSG',
     MODE    = <any>'MODE',
+    NICK    = <any>'NICK',
+    QUIT    = <any>'QUIT',
+    KICK    = <any>'KICK',
+    ACCOUNT = <any>'ACCOUNT',
+    CHGHOST = <any>'CHGHOST',
+    INVITE  = <any>'INVITE',
+    AWAY    = <any>'AWAY',
+    TOPIC   = <any>'TOPIC',
+    AUTHENTICATE = <any>'AUTHENTICATE',
 
 
     QUOTE_PONG = 513
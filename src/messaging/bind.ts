@@ -12,6 +12,8 @@ export class Bind implements IBind {
   public active: boolean;
   public duplex: boolean;
   public unrestricted: boolean;
+  public relay_away: boolean;
+  public mirror_topic: boolean;
 
   // public prefix_source: boolean;
   public prefix: string;
@@ -57,6 +59,8 @@ export class Bind implements IBind {
 
     this.duplex        = opts.duplex === undefined ? true : !!opts.duplex;
     this.unrestricted  = opts.unrestricted === undefined ? true : !!opts.unrestricted;
+    this.relay_away    = !!opts.relay_away;
+    this.mirror_topic  = !!opts.mirror_topic;
     this.prefix_source = opts.prefix_source === undefined ? false : !!opts.prefix_source;
     this.prefix        = opts.prefix || this.prefix || ''; 
 
@@ -237,6 +241,8 @@ export class Bind implements IBind {
       active: this.active,
       duplex: this.duplex,
       unrestricted: this.unrestricted,
+      relay_away: this.relay_away,
+      mirror_topic: this.mirror_topic,
 
       prefix_source: this.prefix_source,
       prefix: this.prefix_source ? null : this.prefix
@@ -370,6 +376,16 @@ interface Options {
   duplex?: boolean,
   unrestricted?: boolean,
 
+  /**
+  * Relay users going away and coming back, off by default
+  */
+  relay_away?: boolean,
+
+  /**
+  * Set the topic of the target channel to match, rather than announce the change
+  */
+  mirror_topic?: boolean,
+
   prefix_source?: boolean,
   prefix?: string,
 }
@@ -0,0 +1,273 @@
+import { Response } from './response';
+import { Message } from './message';
+import { Bot } from '../bot';
+import * as _ from 'lodash';
+
+/**
+* Commands triggered from channels with the network trigger, e.g. '!op nick',
+* or sent in a private message with or without it
+*
+* The argument spec names the arguments, <name> is required, [name] optional,
+* and a trailing ... takes the rest of the line, e.g. '<nick> [reason...]'
+*/
+
+export class Commands {
+
+  private commands: ICommand[] = [];
+
+  constructor( private bot: Bot ) {
+    this.register(
+      {
+        name: 'help',
+        args: '[command]',
+        description: 'List the commands, or show how to use one'
+      },
+      this.help.bind( this )
+    );
+  }
+
+  /**
+  * Add a command, replacing one with the same name
+  * @param <ICommandOptions> options: The name, aliases, arguments and flags required
+  * @param <Function> handler: Called with the response, the arguments and the message
+  * @return <ICommand>
+  */
+  public register( options: ICommandOptions, handler: ICommandHandler ): ICommand {
+    let command: ICommand;
+
+    if ( !options.name || !options.name.trim().length )
+      throw new Error( 'a command must have a name' );
+
+    if ( typeof handler != 'function' )
+      throw new Error( `You must pass a function to handle ${ options.name }` );
+
+    this.unregister( options.name );
+
+    command = {
+      name: options.name.toLowerCase(),
+      aliases: _.map( options.aliases || [], ( alias: string ) => alias.toLowerCase() ),
+      args: options.args || '',
+      description: options.description || '',
+      flags: options.flags || '',
+      arguments: this.spec( options.args ),
+      handler: handler
+    };
+
+    this.commands.push( command );
+
+    return command;
+  }
+
+  /**
+  * Remove a command
+  * @param <string> name: The name of the command
+  * @return <void>
+  */
+  public unregister( name: string ): void {
+    _.remove( this.commands, ( command: ICommand ) => command.name === name.toLowerCase() );
+  }
+
+  /**
+  * Find a command by name or alias
+  * @param <string> name: The name or alias
+  * @return <ICommand>
+  */
+  public find( name: string ): ICommand {
+    name = ( name || '' ).toLowerCase();
+
+    return _.find( this.commands, ( command: ICommand ) => {
+      return command.name === name || _.contains( command.aliases, name );
+    });
+  }
+
+  /**
+  * The registered commands, by name
+  * @return <ICommand[]>
+  */
+  public list(): ICommand[] {
+    return _.sortBy( this.commands, 'name' );
+  }
+
+  /**
+  * Run the command a message asks for, if any
+  * @param <Message> message: The message
+  * @return <boolean> Was the message a command?
+  */
+  public dispatch( message: Message ): boolean {
+    let parsed = this.parse( message ),
+        response: Response,
+        args: { [ name: string ]: string };
+
+    if ( !parsed ) return false;
+
+    response = new Response( message );
+
+    if ( !this.bot.router.permitted( message, parsed.command.flags ) ) {
+      response.notice( `You are not permitted to use ${ this.usage( message, parsed.command, false ) }` );
+      return true;
+    }
+
+    if ( !( args = this.bindArguments( parsed.command, parsed.words ) ) ) {
+      response.notice( `Usage: ${ this.usage( message, parsed.command ) }` );
+      return true;
+    }
+
+    try {
+      parsed.command.handler.call( null, response, args, message );
+    }
+    catch ( e ) {
+      this.bot.Logger.error( `Command ${ parsed.command.name } failed on ${ message.network.name }: ${ e }` );
+    }
+
+    return true;
+  }
+
+  /**
+  * Find the command in a channel or private message
+  * @param <Message> message: The message
+  * @return <Object> The command and the words after it, null when not a command
+  */
+  public parse( message: Message ): { command: ICommand, words: string[] } {
+    let trigger = message.network.trigger,
+        content = message.content || '',
+        words: string[],
+        command: ICommand;
+
+    // commands come from people, in messages rather than notices or actions
+    if ( !message.message() || message.isBot() ) return null;
+
+    if ( trigger && content.indexOf( trigger ) === 0 )
+      content = content.slice( trigger.length );
+
+    // only private messages may leave out the trigger
+    else if ( message.channel || !message.private() )
+      return null;
+
+    words = _.compact( content.trim().split( /\s+/ ) );
+
+    if ( !( command = this.find( words[ 0 ] ) ) ) return null;
+
+    return { command: command, words: words.slice( 1 ) };
+  }
+
+  /**
+  * How to use a command, e.g. '!op <nick> [reason...]'
+  * @param <Message> message: The message, for the network trigger
+  * @param <ICommand> command: The command
+  * @param <boolean> args: Include the argument spec
+  * @return <string>
+  */
+  public usage( message: Message, command: ICommand, args: boolean = true ): string {
+    return `${ message.network.trigger || '' }${ command.name }${ args && command.args ? ' ' + command.args : '' }`;
+  }
+
+  /**
+  * The built in help command, generated from the registry
+  * @param <Response> response: The response
+  * @param <Object> args: The arguments, command is optional
+  * @param <Message> message: The message
+  * @return <void>
+  * @private
+  */
+  private help( response: Response, args: { [ name: string ]: string }, message: Message ): void {
+    let command: ICommand,
+        available: ICommand[];
+
+    if ( args[ 'command' ] ) {
+      command = this.find( args[ 'command' ].replace( message.network.trigger || '', '' ) );
+
+      if ( !command )
+        return response.notice( `No such command ${ args[ 'command' ] }` );
+
+      response.notice( _.compact( [
+        this.usage( message, command ),
+        command.description && `- ${ command.description }`,
+        command.aliases.length && `( also ${ command.aliases.join( ', ' ) } )`,
+        command.flags && `[ requires ${ command.flags } ]`
+      ]).join( ' ' ) );
+
+      return;
+    }
+
+    available = _.filter( this.list(), ( command: ICommand ) => this.bot.router.permitted( message, command.flags ) );
+
+    response.notice( `Commands: ${ _.map( available, ( command: ICommand ) => this.usage( message, command, false ) ).join( ', ' ) }` );
+  }
+
+  /**
+  * Parse an argument spec, e.g. '<nick> [reason...]'
+  * @param <string> args: The spec
+  * @return <IArgument[]>
+  * @private
+  */
+  private spec( args: string ): IArgument[] {
+    return _.map( ( args || '' ).match( /<[^>]+>|\[[^\]]+\]/g ) || [], ( arg: string ) => {
+      let name = arg.slice( 1, -1 );
+
+      return {
+        name: name.replace( /\.\.\.$/, '' ),
+        required: arg[ 0 ] === '<',
+        rest: /\.\.\.$/.test( name )
+      };
+    });
+  }
+
+  /**
+  * Assign words to a commands arguments
+  * @param <ICommand> command: The command
+  * @param <string[]> words: The words after the command
+  * @return <Object> Keyed by argument name, null when a required argument is missing
+  * @private
+  */
+  private bindArguments( command: ICommand, words: string[] ): { [ name: string ]: string } {
+    let args: { [ name: string ]: string } = {},
+        missing = false;
+
+    _.each( command.arguments, ( arg: IArgument, index: number ) => {
+      let value = arg.rest ? words.slice( index ).join( ' ' ) : words[ index ];
+
+      if ( value )
+        args[ arg.name ] = value;
+
+      else if ( arg.required )
+        missing = true;
+    });
+
+    return missing ? null : args;
+  }
+}
+
+export interface ICommandHandler {
+  ( response: Response, args: { [ name: string ]: string }, message: Message ): void;
+}
+
+export interface ICommandOptions {
+  name: string;
+  aliases?: string[];
+
+  /**
+  * The argument spec, e.g. '<nick> [reason...]'
+  */
+  args?: string;
+  description?: string;
+
+  /**
+  * The user database flags needed to use the command, e.g. 'o'
+  */
+  flags?: string;
+}
+
+export interface ICommand extends ICommandOptions {
+  arguments: IArgument[];
+  handler: ICommandHandler;
+}
+
+export interface IArgument {
+  name: string;
+  required: boolean;
+
+  /**
+  * Takes the rest of the line
+  */
+  rest: boolean;
+}
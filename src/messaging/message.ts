@@ -1,6 +1,7 @@
 
 import { Channel } from '../networks/base/channel';
 import { AnyNet } from '../networks/netfactory';
+import { IModeChange } from '../networks/irc/modes';
 import { User } from '../networks/base/user';
 import { Bind } from './bind';
 
@@ -10,6 +11,9 @@ export class Message implements IMessage {
   public user: User;
   public target: Channel | User;
   public nick: string;
+  public new_nick: string;
+  public victim: string;
+  public modes: IModeChange[];
 
   public content: string;
   public events: string[];
@@ -27,8 +31,11 @@ export class Message implements IMessage {
     this.user    = message.user;
     this.target  = message.target;
     this.content = message.message || '';
-    this.timestamp = Date.now();
+    this.timestamp = message.timestamp || Date.now();
     this.nick = message.nick;
+    this.new_nick = message.new_nick;
+    this.victim = message.victim;
+    this.modes = message.modes;
     this.command = message.command;
     this.events = [ 'catchall' ];
 
@@ -96,6 +103,54 @@ export class Message implements IMessage {
     return this.events.indexOf( 'part' ) >= 0;
   }
 
+  /**
+  * Was this message a kick?
+  * @return <boolean>
+  */
+  public kick(): boolean {
+    return this.events.indexOf( 'kick' ) >= 0;
+  }
+
+  /**
+  * Was this message a mode change?
+  * @return <boolean>
+  */
+  public mode(): boolean {
+    return this.events.indexOf( 'mode' ) >= 0;
+  }
+
+  /**
+  * Was this message a quit?
+  * @return <boolean>
+  */
+  public quit(): boolean {
+    return this.events.indexOf( 'quit' ) >= 0;
+  }
+
+  /**
+  * Was this message a nick change?
+  * @return <boolean>
+  */
+  public nickChange(): boolean {
+    return this.events.indexOf( 'nick' ) >= 0;
+  }
+
+  /**
+  * Was this message a user going away or coming back?
+  * @return <boolean>
+  */
+  public away(): boolean {
+    return this.events.indexOf( 'away' ) >= 0;
+  }
+
+  /**
+  * Was this message a topic change?
+  * @return <boolean>
+  */
+  public topic(): boolean {
+    return this.events.indexOf( 'topic' ) >= 0;
+  }
+
   /**
   * Was the bot the originator of the message?
   * @return <boolean>
@@ -121,8 +176,33 @@ export class Message implements IMessage {
         this.response = `${ nick } has left ${ this.channel.name } on ${ this.channel.network.name }`;
 
         break;
+      case 'QUIT':
+        this.response = `${ nick } has quit ${ this.channel.network.name }${ this.content ? ' (' + this.content + ')' : '' }`;
 
+        break;
+      case 'KICK':
+        this.response = `${ this.victim } was kicked from ${ this.channel.name } on ${ this.channel.network.name } by ${ nick }${ this.content ? ' (' + this.content + ')' : '' }`;
+
+        break;
+      case 'MODE':
+        this.response = `${ nick } sets mode ${ this.content } in ${ this.channel.name } on ${ this.channel.network.name }`;
+
+        break;
+      case 'NICK':
+        this.response = `${ this.nick } is now known as ${ this.new_nick } on ${ this.channel.network.name }`;
+
+        break;
+
+      case 'TOPIC':
+        this.response = this.content ?
+          `${ nick } changed the topic of ${ this.channel.name } on ${ this.channel.network.name } to: ${ this.content }` :
+          `${ nick } removed the topic of ${ this.channel.name } on ${ this.channel.network.name }`;
+
+        break;
       case 'AWAY':
+        this.response = this.content ?
+          `${ nick } is away on ${ this.channel.network.name } (${ this.content })` :
+          `${ nick } is back on ${ this.channel.network.name }`;
 
         break;
 
@@ -144,14 +224,24 @@ interface IMessage extends MessageOptions {
   formatResponse(): void;
 
   action(): boolean;
+  away(): boolean;
+  kick(): boolean;
   message(): boolean;
+  mode(): boolean;
+  nickChange(): boolean;
   notice(): boolean;
   private(): boolean;
   public(): boolean;
+  quit(): boolean;
+  topic(): boolean;
 }
 
 export interface IMessageOptions extends MessageOptions {
   message?: string;
+  new_nick?: string;
+  victim?: string;
+  modes?: IModeChange[];
+  timestamp?: number;
 }
 
 interface MessageOptions {
@@ -1,4 +1,3 @@
-
 import { Channel } from '../networks/base/channel';
 import { Network } from '../networks/base/network';
 import { User } from '../networks/base/user';
@@ -18,15 +17,48 @@ export class Response implements IResponse {
   constructor( message: Message );
   constructor( options: IResponseOptions );
   constructor( options: any ) {
-    this.message        = options.message || options.content;
+    // message() on a Message tells the kind of message, its text is the content
+    this.message        = options instanceof Message ? options.content : options.message;
     this.target         = options.target;
     this.origin_user    = options.origin_user || options.user;
     this.origin_channel = options.origin_channel || options.channel;
   }
+
+  /**
+  * Send text to where the message came from, the channel or the user
+  * @param <string> text: The text to send
+  * @return <void>
+  */
+  public say( text: string ): void {
+    ( this.origin_channel || this.origin_user ).say( text );
+  }
+
+  /**
+  * Answer the user, addressing them by name in a channel
+  * @param <string> text: The text to send
+  * @return <void>
+  */
+  public reply( text: string ): void {
+    if ( this.origin_channel )
+      this.origin_channel.say( `${ this.origin_user.name }: ${ text }` );
+    else
+      this.origin_user.say( text );
+  }
+
+  /**
+  * Answer the user privately with a notice
+  * @param <string> text: The text to send
+  * @return <void>
+  */
+  public notice( text: string ): void {
+    this.origin_user.notice( text );
+  }
 }
 
 export interface IResponse extends IResponseOptions {
-
+  say( text: string ): void;
+  reply( text: string ): void;
+  notice( text: string ): void;
 }
 
 export interface IResponseOptions {
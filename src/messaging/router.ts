@@ -1,6 +1,8 @@
 
 import { Bot } from '../bot';
 import { Bind } from './bind';
+import { IrcChannel } from '../networks/irc/irc_channel';
+import { IrcUser } from '../networks/irc/irc_user';
 import { Message } from './message';
 
 export class Router {
@@ -20,11 +22,40 @@ export class Router {
     this.bot.Logger.info( `Received message from ${ message.network.name } ${ message.channel ? 'channel ' + message.channel.name : 'user ' + message.user.name }` );
     this.bot.emit( `message::${ message.network.name }`, message );
 
-    this.bindings( message );
+    // commands are answered, not relayed
+    if ( !this.bot.commands.dispatch( message ) )
+      this.bindings( message );
 
     // more to do...
   }
 
+  /**
+  * The flags the sender of a message holds in the user database, globally and in the channel
+  * Senders on networks without a user database hold no flags
+  * @param <Message> message: The message
+  * @return <string> e.g. 'ov'
+  */
+  public flags( message: Message ): string {
+    let user = message.user;
+
+    if ( !( user instanceof IrcUser ) )
+      return '';
+
+    return ( <IrcUser>user ).network.user_db.flags( <IrcUser>user, message.channel instanceof IrcChannel ? <IrcChannel>message.channel : null );
+  }
+
+  /**
+  * Does the sender of a message hold every one of the flags?
+  * @param <Message> message: The message
+  * @param <string> flags: e.g. 'o'
+  * @return <boolean>
+  */
+  public permitted( message: Message, flags: string ): boolean {
+    let held = this.flags( message );
+
+    return flags.split( '' ).every( ( flag: string ) => held.indexOf( flag ) >= 0 );
+  }
+
   /**
   * Check message against bindings
   * @param <Message> message: The message to check against
@@ -58,12 +89,12 @@ export class Router {
       bindings.forEach( ( bind ) => {
 
         /**
-        * The bind must be enabled
+        * The bind must be enabled, and asked to relay users going away
         */
-        if ( bind.enabled() ) {
-          if ( message.channel.name === bind.channel ) {
+        if ( bind.enabled() && ( bind.relay_away || !message.away() ) ) {
+          if ( message.network.findChannel( bind.channel ) === message.channel ) {
 
-            let joinPart = !!message.command.match( /^JOIN|PART$/i );
+            let joinPart = !!message.command.match( /^(JOIN|PART|NICK|QUIT|KICK|MODE|AWAY|TOPIC)$/i );
             let msg: Message = null;
 
             /**
@@ -74,17 +105,30 @@ export class Router {
               * determine if our destination network and target channel exists
               */
               if ( this.bot.network[ bind.destination ].channelExists( bind.target ) ) {
+                let target = this.bot.network[ bind.destination ].findChannel( bind.target );
+
                 msg.bind = bind;
-                msg.formatResponse();
 
                 /**
-                * Finally send the message to the destination target
+                * Mirror the topic where the target channel has one, our own
+                * changes are mirrors already and sending them back would loop
                 */
-                this.bot.network[ bind.destination ].channel[ bind.target ].say( msg.response );
+                if ( msg.topic() && bind.mirror_topic && target instanceof IrcChannel ) {
+                  if ( !msg.isBot() )
+                    target.setTopic( msg.content );
+                }
+                else {
+                  msg.formatResponse();
+
+                  /**
+                  * Finally send the message to the destination target
+                  */
+                  target.say( msg.response );
+                }
               }
             }
 
-            this.bot.Logger.info( `Router binding match ${ msg ? 'accepted' : 'rejected' } for ${ bind.network }:${ bind.channel } to ${ bind.destination }:${ bind.target } matching: ${ joinPart ? 'JOIN/PART' : message.message }` );
+            this.bot.Logger.info( `Router binding match ${ msg ? 'accepted' : 'rejected' } for ${ bind.network }:${ bind.channel } to ${ bind.destination }:${ bind.target } matching: ${ joinPart ? message.command : message.content }` );
           }
         }
       });
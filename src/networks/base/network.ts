@@ -19,6 +19,11 @@ export abstract class Network implements INetwork {
   public channel: { [ chan: string ]: Channel } = {};
   public ident: string;
   public type: string;
+
+  /**
+  * The prefix of commands in channels, e.g. '!'
+  */
+  public trigger: string;
   public hostname: string;
   public connection: Connection;
   public connection_attempts = 0;
@@ -35,6 +40,7 @@ export abstract class Network implements INetwork {
     this.name = options.name.toLowerCase();
     this._enable = options.enable === undefined ? true : !!options.enable;
     this.type = options.type;
+    this.trigger = options.trigger === undefined ? '!' : options.trigger;
 
     this.bot.Logger.info( `Created new network ${ this.name } of type ${ this.type }` );
   }
@@ -74,7 +80,9 @@ export abstract class Network implements INetwork {
   * Disable the network
   * @return <void>
   */
-  public disable(): void {}
+  public disable(): void {
+    this._enable = false;
+  }
 
   /**
   * Are we connected?
@@ -150,6 +158,15 @@ export abstract class Network implements INetwork {
     }
   }
 
+  /**
+  * Find a network channel by name
+  * @param <string> name: The name of the channel you seek
+  * @return <Channel>
+  */
+  public findChannel( name: string ): Channel {
+    return this.channel[ name ];
+  }
+
   public channelExists( name: string ): boolean {
     return !!_.find( this.channels, ( channel ) => {
       return channel.name === name;
@@ -234,4 +251,9 @@ export interface INetworkOptions {
   * How many times should we attempt to reconnect ( before moving to the next server or disabling )
   */
   connection_attempts?: number;
+
+  /**
+  * The prefix of commands in channels, e.g. '!', commands in private messages may leave it out
+  */
+  trigger?: string;
 }
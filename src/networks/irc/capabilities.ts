@@ -0,0 +1,354 @@
+
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* IRCv3 capability negotiation
+*
+* Features register the capabilities they want, the registry requests those
+* the server offers and holds CAP END until every enabled feature is done
+*/
+
+export class Capabilities {
+
+  /**
+  * Capabilities offered by the server and their values
+  */
+  public available: { [ name: string ]: string } = {};
+
+  private registry: { [ name: string ]: ICapability } = {};
+  private holds: string[] = [];
+  private listing: { [ name: string ]: string } = null;
+  private negotiating: boolean = false;
+
+  constructor( public network: Irc ) {
+
+  }
+
+  /**
+  * Register a capability to request when the server offers it
+  * @param <string> name: The capability name, e.g. 'server-time'
+  * @param <ICapability> capability: Optional hooks for the capability
+  * @return <Capabilities>
+  */
+  public register( name: string, capability: ICapability = {} ): Capabilities {
+    this.registry[ name ] = capability;
+
+    return this;
+  }
+
+  /**
+  * Stop requesting a capability
+  * @param <string> name: The capability name
+  * @return <Capabilities>
+  */
+  public unregister( name: string ): Capabilities {
+    delete this.registry[ name ];
+
+    return this;
+  }
+
+  /**
+  * Is the capability registered?
+  * @param <string> name: The capability name
+  * @return <boolean>
+  */
+  public registered( name: string ): boolean {
+    return !!this.registry[ name ];
+  }
+
+  /**
+  * Was the capability acknowledged by the server?
+  * @param <string> name: The capability name
+  * @return <boolean>
+  */
+  public enabled( name: string ): boolean {
+    return !!this.network.connection && _.contains( this.network.connection.capabilities.enabled, name );
+  }
+
+  /**
+  * The value the server advertised for a capability, e.g. 'PLAIN,EXTERNAL' for sasl
+  * @param <string> name: The capability name
+  * @return <string>
+  */
+  public value( name: string ): string {
+    return this.available[ name ];
+  }
+
+  /**
+  * Start a new negotiation, called when connecting
+  * @return <void>
+  */
+  public reset(): void {
+    this.available   = {};
+    this.holds       = [];
+    this.listing     = null;
+    this.negotiating = true;
+  }
+
+  /**
+  * A feature has finished the work it started when its capability was enabled
+  * @param <string> name: The capability name
+  * @return <void>
+  */
+  public release( name: string ): void {
+    this.holds = _.without( this.holds, name );
+
+    this.finish();
+  }
+
+  /**
+  * CAP LS, which may span several lines ( CAP * LS * :caps )
+  * @param <string[]> params: [ nick, 'LS', '*'?, caps ]
+  * @return <void>
+  */
+  public ls( params: string[] ): void {
+    let more = params.length > 3 && params[ 2 ] === '*';
+
+    _.assign( this.available, this.parse( params[ params.length - 1 ] ) );
+
+    if ( !more )
+      this.request( _.keys( this.available ) );
+  }
+
+  /**
+  * CAP ACK
+  * @param <string> caps: The acknowledged capabilities
+  * @return <void>
+  */
+  public ack( caps: string ): void {
+    let capabilities = this.network.connection.capabilities;
+
+    _.each( this.names( caps ), ( name: string ) => {
+      capabilities.requested = _.without( capabilities.requested, name.replace( /^-/, '' ) );
+
+      if ( name[ 0 ] === '-' ) {
+        this.disable( name.slice( 1 ) );
+      }
+      else {
+        capabilities.enabled = _.union( capabilities.enabled, [ name ] );
+
+        this.enable( name );
+      }
+    });
+
+    this.finish();
+  }
+
+  /**
+  * CAP NAK, the whole request was refused
+  * @param <string> caps: The refused capabilities
+  * @return <void>
+  */
+  public nak( caps: string ): void {
+    let capabilities = this.network.connection.capabilities;
+
+    capabilities.requested = _.difference( capabilities.requested, this.names( caps ) );
+
+    this.finish();
+  }
+
+  /**
+  * CAP NEW ( cap-notify ), the server now offers more capabilities
+  * @param <string> caps: The new capabilities
+  * @return <void>
+  */
+  public add( caps: string ): void {
+    let offered = this.parse( caps );
+
+    _.assign( this.available, offered );
+
+    this.request( _.keys( offered ) );
+  }
+
+  /**
+  * CAP DEL ( cap-notify ), the server no longer offers capabilities
+  * @param <string> caps: The removed capabilities
+  * @return <void>
+  */
+  public del( caps: string ): void {
+    _.each( this.names( caps ), ( name: string ) => {
+      delete this.available[ name ];
+
+      this.disable( name );
+    });
+  }
+
+  /**
+  * CAP LIST, the capabilities enabled on the connection
+  * @param <string[]> params: [ nick, 'LIST', '*'?, caps ]
+  * @return <void>
+  */
+  public list( params: string[] ): void {
+    let more = params.length > 3 && params[ 2 ] === '*';
+
+    this.listing = _.assign( this.listing || {}, this.parse( params[ params.length - 1 ] ) );
+
+    if ( !more ) {
+      this.network.connection.capabilities.enabled = _.keys( this.listing );
+      this.listing = null;
+    }
+  }
+
+  /**
+  * Request the registered capabilities among those offered
+  * @param <string[]> offered: The offered capability names
+  * @return <void>
+  * @private
+  */
+  private request( offered: string[] ): void {
+    let capabilities = this.network.connection.capabilities,
+        wanted = _.filter( offered, ( name: string ) => {
+          let capability = this.registry[ name ];
+
+          return !!capability
+            && !_.contains( capabilities.enabled, name )
+            && ( !capability.request || capability.request( this.available[ name ] ) );
+        });
+
+    capabilities.requested = _.union( capabilities.requested, wanted );
+
+    // keep each request well within the 512 byte line limit
+    _.each( this.chunk( wanted, 400 ), ( names: string[] ) => {
+      this.network.connection.sendCapReq( names.join( ' ' ) );
+    });
+
+    this.finish();
+  }
+
+  /**
+  * @param <string> name: The acknowledged capability
+  * @return <void>
+  * @private
+  */
+  private enable( name: string ): void {
+    let capability = this.registry[ name ];
+
+    if ( !capability || !capability.enable )
+      return;
+
+    this.holds = _.union( this.holds, [ name ] );
+
+    capability.enable( this.available[ name ], () => {
+      this.release( name );
+    });
+  }
+
+  /**
+  * @param <string> name: The removed capability
+  * @return <void>
+  * @private
+  */
+  private disable( name: string ): void {
+    let capabilities = this.network.connection.capabilities,
+        capability = this.registry[ name ];
+
+    if ( !_.contains( capabilities.enabled, name ) )
+      return;
+
+    capabilities.enabled = _.without( capabilities.enabled, name );
+
+    if ( capability && capability.disable )
+      capability.disable();
+
+    this.release( name );
+  }
+
+  /**
+  * End negotiation once nothing is requested or held
+  * @return <void>
+  * @private
+  */
+  private finish(): void {
+    if ( !this.negotiating )
+      return;
+
+    if ( this.network.connection.capabilities.requested.length || this.holds.length )
+      return;
+
+    this.negotiating = false;
+    this.network.connection.sendCapEnd();
+  }
+
+  /**
+  * Parse a capability list into names and values
+  * @param <string> caps: e.g. 'multi-prefix sasl=PLAIN,EXTERNAL'
+  * @return <Object>
+  * @private
+  */
+  private parse( caps: string ): { [ name: string ]: string } {
+    let parsed: { [ name: string ]: string } = {};
+
+    _.each( _.compact( ( caps || '' ).split( ' ' ) ), ( cap: string ) => {
+      // drop the draft 3.1 modifiers
+      cap = cap.replace( /^[~=]/, '' );
+
+      let index = cap.indexOf( '=' );
+
+      if ( index >= 0 )
+        parsed[ cap.slice( 0, index ) ] = cap.slice( index + 1 );
+      else
+        parsed[ cap ] = '';
+    });
+
+    return parsed;
+  }
+
+  /**
+  * Capability names, without values, keeping a leading '-'
+  * @param <string> caps: The capability list
+  * @return <string[]>
+  * @private
+  */
+  private names( caps: string ): string[] {
+    return _.map( _.compact( ( caps || '' ).split( ' ' ) ), ( cap: string ) => {
+      return cap.replace( /^[~=]/, '' ).split( '=' )[ 0 ];
+    });
+  }
+
+  /**
+  * Split names into groups whose joined length stays under the limit
+  * @param <string[]> names: The capability names
+  * @param <number> limit: The maximum length of a group
+  * @return <string[][]>
+  * @private
+  */
+  private chunk( names: string[], limit: number ): string[][] {
+    let chunks: string[][] = [],
+        current: string[] = [],
+        length = 0;
+
+    _.each( names, ( name: string ) => {
+      if ( current.length && length + name.length + 1 > limit ) {
+        chunks.push( current );
+        current = [];
+        length  = 0;
+      }
+
+      current.push( name );
+      length += name.length + 1;
+    });
+
+    if ( current.length )
+      chunks.push( current );
+
+    return chunks;
+  }
+}
+
+export interface ICapability {
+  /**
+  * Decide whether to request the capability, given the value the server advertised
+  */
+  request?: ( value: string ) => boolean;
+
+  /**
+  * Called once the capability is acknowledged, CAP END is held until done is called
+  */
+  enable?: ( value: string, done: Function ) => void;
+
+  /**
+  * Called when the capability is removed ( CAP DEL or ACK -name )
+  */
+  disable?: () => void;
+}
@@ -0,0 +1,59 @@
+/**
+* Nick and channel comparison according to the servers CASEMAPPING token
+*
+* ascii:          A-Z        are lowercase a-z
+* strict-rfc1459: A-Z[]\     are lowercase a-z{}|
+* rfc1459:        A-Z[]\~    are lowercase a-z{}|^
+*/
+
+export module CaseMapping {
+
+  const UPPER: { [ mapping: string ]: RegExp } = {
+    'ascii': /[A-Z]/g,
+    'strict-rfc1459': /[A-Z\[\]\\]/g,
+    'rfc1459': /[A-Z\[\]\\~]/g
+  };
+
+  const LOWER: { [ character: string ]: string } = {
+    '[': '{',
+    ']': '}',
+    '\\': '|',
+    '~': '^'
+  };
+
+  /**
+  * Lowercase an identifier
+  * @param <string> value: The nick or channel name
+  * @param <string> mapping: The case mapping, e.g. 'rfc1459'
+  * @return <string>
+  */
+  export function lower( value: string, mapping: string = 'rfc1459' ): string {
+    if ( !value )
+      return value;
+
+    // unknown mappings, such as rfc7613, fall back to unicode lowercase
+    if ( !UPPER[ mapping ] )
+      return value.toLowerCase();
+
+    return value.replace( UPPER[ mapping ], ( character: string ) => {
+      return LOWER[ character ] || character.toLowerCase();
+    });
+  }
+
+  /**
+  * Compare two identifiers
+  * @param <string> first: The first nick or channel name
+  * @param <string> second: The second nick or channel name
+  * @param <string> mapping: The case mapping, e.g. 'rfc1459'
+  * @return <boolean>
+  */
+  export function equals( first: string, second: string, mapping: string = 'rfc1459' ): boolean {
+    if ( first === second )
+      return true;
+
+    if ( !first || !second )
+      return false;
+
+    return lower( first, mapping ) === lower( second, mapping );
+  }
+}
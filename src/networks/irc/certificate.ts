@@ -0,0 +1,67 @@
+
+import * as crypto from 'crypto';
+
+/**
+* Certificate fingerprints, as used for CertFP and pinning server certificates
+*
+* Fingerprints are lowercase hex without separators, a pin may be
+* written either way, e.g. 'AB:CD:...' or 'abcd...'
+*/
+
+export module Certificate {
+
+  const ALGORITHMS: { [ length: number ]: string } = {
+    40: 'sha1',
+    64: 'sha256',
+    128: 'sha512'
+  };
+
+  /**
+  * Fingerprint a DER encoded certificate
+  * @param <Buffer> der: The raw certificate
+  * @param <string> algorithm: The hash algorithm
+  * @return <string>
+  */
+  export function fingerprint( der: Buffer, algorithm: string = 'sha256' ): string {
+    return crypto.createHash( algorithm ).update( der ).digest( 'hex' );
+  }
+
+  /**
+  * Decode the first certificate of a PEM file
+  * @param <Buffer|string> pem: The PEM contents
+  * @return <Buffer> null if there is no certificate
+  */
+  export function decode( pem: Buffer ): Buffer;
+  export function decode( pem: string ): Buffer;
+  export function decode( pem: any ): Buffer {
+    let match = /-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/.exec( pem.toString() );
+
+    return match ? new Buffer( match[ 1 ].replace( /\s+/g, '' ), 'base64' ) : null;
+  }
+
+  /**
+  * Normalize a fingerprint to lowercase hex
+  * @param <string> fingerprint: e.g. 'AB:CD:EF'
+  * @return <string>
+  */
+  export function normalize( fingerprint: string ): string {
+    return ( fingerprint || '' ).replace( /[^0-9a-fA-F]/g, '' ).toLowerCase();
+  }
+
+  /**
+  * Does the certificate match the pinned fingerprint?
+  * The algorithm is chosen by the length of the pin: sha1, sha256 or sha512
+  * @param <string> pin: The pinned fingerprint
+  * @param <Buffer> der: The raw certificate
+  * @return <boolean>
+  */
+  export function matches( pin: string, der: Buffer ): boolean {
+    let expected  = normalize( pin ),
+        algorithm = ALGORITHMS[ expected.length ];
+
+    if ( !algorithm || !der )
+      return false;
+
+    return fingerprint( der, algorithm ) === expected;
+  }
+}
@@ -0,0 +1,269 @@
+
+import { IrcUser } from './irc_user';
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* Client To Client Protocol, messages wrapped in \u0001
+*
+* Requests arrive as PRIVMSG and are answered with a NOTICE, replies
+* to our own requests arrive as NOTICE
+*/
+
+export class Ctcp {
+
+  public static DELIMITER = '\u0001';
+
+  private handlers: { [ command: string ]: CtcpHandler } = {};
+  private requests: number[] = [];
+  private pending: { [ key: string ]: ICtcpQuery } = {};
+
+  constructor( public network: Irc ) {
+    this.register( 'CLIENTINFO', () => {
+      return _.keys( this.handlers ).sort().join( ' ' );
+    });
+
+    this.register( 'PING', ( request: ICtcpRequest ) => {
+      return request.args;
+    });
+
+    this.register( 'TIME', () => {
+      return new Date().toString();
+    });
+
+    this.register( 'VERSION', () => {
+      return this.network.ctcp_replies[ 'VERSION' ];
+    });
+
+    this.register( 'SOURCE', () => {
+      return this.network.ctcp_replies[ 'SOURCE' ];
+    });
+
+    this.network.bot.on( 'disconnect::' + this.network.name, () => {
+      _.each( _.keys( this.pending ), ( key: string ) => {
+        this.settle( key, new Error( 'disconnected from ' + this.network.name ) );
+      });
+    });
+  }
+
+  /**
+  * Is the text a CTCP message?
+  * @param <string> text: The PRIVMSG or NOTICE text
+  * @return <boolean>
+  */
+  public static is( text: string ): boolean {
+    return !!text && text[ 0 ] === Ctcp.DELIMITER;
+  }
+
+  /**
+  * Split a CTCP message into its command and arguments
+  * @param <string> text: e.g. '\u0001PING 12345\u0001', the trailing delimiter is optional
+  * @return <Object>
+  */
+  public static parse( text: string ): { command: string, args: string } {
+    let body  = text.replace( /^\u0001/, '' ).replace( /\u0001$/, '' ),
+        index = body.indexOf( ' ' );
+
+    return {
+      command: ( index >= 0 ? body.slice( 0, index ) : body ).toUpperCase(),
+      args: index >= 0 ? body.slice( index + 1 ) : ''
+    };
+  }
+
+  /**
+  * Wrap a command and its arguments
+  * @param <string> command: The CTCP command
+  * @param <string> args: The arguments
+  * @return <string>
+  */
+  public static wrap( command: string, args?: string ): string {
+    return Ctcp.DELIMITER + _.compact( [ command.toUpperCase(), args ] ).join( ' ' ) + Ctcp.DELIMITER;
+  }
+
+  /**
+  * Register a CTCP command, replacing any existing handler
+  * @param <string> command: The command, e.g. 'FINGER'
+  * @param <CtcpHandler|string> handler: A fixed reply, or a function returning the reply
+  * @return <Ctcp>
+  */
+  public register( command: string, handler: CtcpHandler ): Ctcp;
+  public register( command: string, handler: string ): Ctcp;
+  public register( command: string, handler: any ): Ctcp {
+    this.handlers[ command.toUpperCase() ] = typeof handler === 'function' ? handler : () => handler;
+
+    return this;
+  }
+
+  /**
+  * Stop answering a CTCP command
+  * @param <string> command: The command
+  * @return <Ctcp>
+  */
+  public unregister( command: string ): Ctcp {
+    delete this.handlers[ command.toUpperCase() ];
+
+    return this;
+  }
+
+  /**
+  * Handle a CTCP request ( PRIVMSG )
+  * @param <ICtcpRequest> request: The parsed request
+  * @return <void>
+  */
+  public request( request: ICtcpRequest ): void {
+    let handler = this.handlers[ request.command ],
+        response: string;
+
+    this.network.bot.emit( 'ctcp_request::' + this.network.name, this.network, request );
+
+    if ( !handler ) return;
+
+    // limited before handling, as handlers such as DCC act without replying
+    if ( !this.allow() ) {
+      this.network.bot.Logger.warn( `ignoring CTCP ${ request.command } from ${ request.nick } on ${ this.network.name }, too many requests` );
+      return;
+    }
+
+    response = handler( request );
+
+    if ( response === null || response === undefined )
+      return;
+
+    this.network.send( `NOTICE ${ request.nick } :${ Ctcp.wrap( request.command, response ) }` );
+  }
+
+  /**
+  * Handle a CTCP reply ( NOTICE ), settling a query waiting on it
+  * @param <ICtcpRequest> reply: The parsed reply
+  * @return <void>
+  */
+  public reply( reply: ICtcpRequest ): void {
+    let key = this.key( reply.nick, reply.command );
+
+    this.network.bot.emit( 'ctcp_reply::' + this.network.name, this.network, reply );
+
+    if ( this.pending[ key ] )
+      this.settle( key, null, reply.args );
+  }
+
+  /**
+  * Send a CTCP request and wait for the reply
+  * A PING without arguments sends the current time and resolves with the latency
+  * @param <string> nick: The nick to query
+  * @param <string> command: The CTCP command
+  * @param <string> args: Optional arguments
+  * @return <PromiseLike<ICtcpReply>>
+  */
+  public query( nick: string, command: string, args?: string ): PromiseLike<ICtcpReply> {
+    let key = this.key( nick, command = command.toUpperCase() ),
+        query: ICtcpQuery;
+
+    if ( this.pending[ key ] )
+      return this.pending[ key ].promise;
+
+    if ( command === 'PING' && !args )
+      args = Date.now().toString();
+
+    query = this.pending[ key ] = <ICtcpQuery>{
+      sent: Date.now(),
+      reply: { nick: nick, command: command, args: null, latency: null }
+    };
+
+    query.promise = new Promise<ICtcpReply>( ( resolve, reject ) => {
+      query.resolve = resolve;
+      query.reject  = reject;
+    });
+
+    query.timeout = setTimeout( () => {
+      this.settle( key, new Error( `CTCP ${ command } to ${ nick } timed out on ${ this.network.name }` ) );
+    }, this.network.ctcp_timeout );
+
+    this.network.send( `PRIVMSG ${ nick } :${ Ctcp.wrap( command, args ) }` );
+
+    return query.promise;
+  }
+
+  /**
+  * Is another request allowed within the rate limit?
+  * @return <boolean>
+  * @private
+  */
+  private allow(): boolean {
+    let now = Date.now();
+
+    this.requests = _.filter( this.requests, ( time: number ) => {
+      return now - time < this.network.ctcp_interval;
+    });
+
+    if ( this.requests.length >= this.network.ctcp_limit )
+      return false;
+
+    this.requests.push( now );
+
+    return true;
+  }
+
+  /**
+  * @param <string> key: The query key
+  * @param <Error> err: Reject with the error, resolve without
+  * @param <string> args: The reply arguments
+  * @return <void>
+  * @private
+  */
+  private settle( key: string, err: Error, args?: string ): void {
+    let query = this.pending[ key ];
+
+    delete this.pending[ key ];
+    clearTimeout( query.timeout );
+
+    if ( err )
+      return query.reject( err );
+
+    query.reply.args    = args;
+    query.reply.latency = Date.now() - query.sent;
+
+    query.resolve( query.reply );
+  }
+
+  /**
+  * @param <string> nick: The queried nick
+  * @param <string> command: The CTCP command
+  * @return <string>
+  * @private
+  */
+  private key( nick: string, command: string ): string {
+    return command + ' ' + this.network.normalize( nick );
+  }
+}
+
+export type CtcpHandler = ( request: ICtcpRequest ) => string;
+
+export interface ICtcpRequest {
+  nick: string;
+  user: IrcUser;
+  /**
+  * The channel name when sent to a channel, otherwise our nick
+  */
+  target: string;
+  command: string;
+  args: string;
+}
+
+export interface ICtcpReply {
+  nick: string;
+  command: string;
+  args: string;
+  /**
+  * Milliseconds between sending the request and receiving the reply
+  */
+  latency: number;
+}
+
+interface ICtcpQuery {
+  sent: number;
+  reply: ICtcpReply;
+  promise: PromiseLike<ICtcpReply>;
+  resolve: ( reply: ICtcpReply ) => void;
+  reject: ( err: Error ) => void;
+  timeout: any;
+}
@@ -0,0 +1,507 @@
+
+import { Ctcp, ICtcpRequest } from '../ctcp';
+import { DccTransfer } from './dcc_transfer';
+import { DccSession } from './dcc_session';
+import { IrcUser } from '../irc_user';
+import { DccChat } from './dcc_chat';
+import { Irc } from '../irc';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as _ from 'lodash';
+import * as fs from 'fs';
+
+/**
+* Direct Client to Client, chat sessions and file transfers negotiated over CTCP
+*
+* A passive ( reverse ) offer carries port 0 and a token, the side receiving
+* it listens instead and replies with the same offer, its port and the token
+*/
+
+export class Dcc {
+
+  /**
+  * Sessions waiting on the other side to reply, connect or resume
+  */
+  private pending: DccSession[] = [];
+
+  constructor( public network: Irc ) {
+    this.network.ctcp.register( 'DCC', ( request: ICtcpRequest ) => {
+      this.handle( request );
+
+      return null;
+    });
+
+    _.each( [ 'dcc_complete', 'dcc_error', 'dcc_chat_close' ], ( event: string ) => {
+      this.network.bot.on( event + '::' + this.network.name, ( network: Irc, session: DccSession ) => {
+        this.release( session );
+      });
+    });
+  }
+
+  /**
+  * Encode an IPv4 address as used in DCC offers, IPv6 addresses are sent as is
+  * @param <string> address: e.g. '192.168.1.1'
+  * @return <string> e.g. '3232235777'
+  */
+  public static encode( address: string ): string {
+    address = address.replace( /^::ffff:/i, '' );
+
+    if ( !/^\d+\.\d+\.\d+\.\d+$/.test( address ) )
+      return address;
+
+    return _.reduce( address.split( '.' ), ( total: number, octet: string ) => {
+      return total * 256 + +octet;
+    }, 0 ).toString();
+  }
+
+  /**
+  * Decode the address of a DCC offer
+  * @param <string> address: e.g. '3232235777'
+  * @return <string> e.g. '192.168.1.1'
+  */
+  public static decode( address: string ): string {
+    let ip = +address;
+
+    if ( !/^\d+$/.test( address ) )
+      return address;
+
+    return [ ip >>> 24, ip >>> 16 & 255, ip >>> 8 & 255, ip & 255 ].join( '.' );
+  }
+
+  /**
+  * Split DCC arguments, file names containing spaces are quoted
+  * @param <string> args: e.g. 'SEND "my file.txt" 3232235777 5000 1024'
+  * @return <string[]>
+  */
+  public static tokenize( args: string ): string[] {
+    let pattern = /"([^"]*)"|(\S+)/g,
+        tokens: string[] = [],
+        match: RegExpExecArray;
+
+    while ( match = pattern.exec( args ) )
+      tokens.push( match[ 1 ] !== undefined ? match[ 1 ] : match[ 2 ] );
+
+    return tokens;
+  }
+
+  /**
+  * Accept an offer, connecting to the other side or listening for a passive offer
+  * A partially downloaded file of the same name is resumed, a file at least
+  * as large as the offer is kept and the offer saved under another name
+  * @param <IDccOffer> offer: The offer, as emitted with 'dcc_offer'
+  * @return <DccSession>
+  */
+  public accept( offer: IDccOffer ): DccSession {
+    let transfer: DccTransfer,
+        file: string,
+        position: number;
+
+    if ( offer.type === 'CHAT' )
+      return this.open( new DccChat( this.network, offer.nick ), offer );
+
+    file     = path.join( this.directory(), path.basename( offer.filename ) );
+    position = fs.existsSync( file ) ? fs.statSync( file ).size : 0;
+
+    if ( position && position >= offer.size ) {
+      file     = Dcc.unique( file );
+      position = 0;
+    }
+
+    transfer = new DccTransfer( this.network, offer.nick, 'receive', offer.filename, file, offer.size );
+
+    if ( !position )
+      return this.open( transfer, offer );
+
+    transfer.host     = offer.host;
+    transfer.port     = offer.port;
+    transfer.token    = offer.token;
+    transfer.position = position;
+
+    this.pending.push( transfer );
+    this.ctcp( offer.nick, [ 'RESUME', Dcc.quote( offer.filename ), offer.port, position, offer.token ] );
+
+    transfer.wait();
+
+    return transfer;
+  }
+
+  /**
+  * Offer a chat session
+  * @param <string> nick: The nick to chat with
+  * @param <boolean> passive: Ask the other side to listen, when we cannot accept connections
+  * @return <DccChat>
+  */
+  public chat( nick: string, passive: boolean = false ): DccChat {
+    let chat = new DccChat( this.network, nick );
+
+    this.pending.push( chat );
+
+    if ( passive ) {
+      chat.token = Dcc.token();
+      this.ctcp( nick, [ 'CHAT', 'chat', this.address(), 0, chat.token ] );
+      chat.wait();
+    }
+    else {
+      chat.listen( ( port: number ) => {
+        this.ctcp( nick, [ 'CHAT', 'chat', this.address(), port ] );
+      });
+    }
+
+    return chat;
+  }
+
+  /**
+  * Offer a file
+  * @param <string> nick: The nick to send the file to
+  * @param <string> file: The path of the file to send
+  * @param <boolean> passive: Ask the other side to listen, when we cannot accept connections
+  * @return <DccTransfer>
+  */
+  public send( nick: string, file: string, passive: boolean = false ): DccTransfer {
+    let transfer = new DccTransfer( this.network, nick, 'send', path.basename( file ), file, fs.statSync( file ).size ),
+        name     = Dcc.quote( transfer.filename );
+
+    this.pending.push( transfer );
+
+    if ( passive ) {
+      transfer.token = Dcc.token();
+      this.ctcp( nick, [ 'SEND', name, this.address(), 0, transfer.size, transfer.token ] );
+      transfer.wait();
+    }
+    else {
+      transfer.listen( ( port: number ) => {
+        this.ctcp( nick, [ 'SEND', name, this.address(), port, transfer.size ] );
+      });
+    }
+
+    return transfer;
+  }
+
+  /**
+  * Dispatch a DCC request
+  * @param <ICtcpRequest> request: The CTCP request
+  * @return <void>
+  * @private
+  */
+  private handle( request: ICtcpRequest ): void {
+    let args = Dcc.tokenize( request.args ),
+        type = ( args.shift() || '' ).toUpperCase();
+
+    switch ( type ) {
+      case 'CHAT':
+        return this.CHAT( request, args );
+      case 'SEND':
+        return this.SEND( request, args );
+      case 'RESUME':
+        return this.RESUME( request, args );
+      case 'ACCEPT':
+        return this.ACCEPT( request, args );
+      default:
+        this.network.bot.Logger.info( `unsupported DCC ${ type } from ${ request.nick } on ${ this.network.name }` );
+    }
+  }
+
+  /**
+  * DCC CHAT chat <address> <port> [token]
+  * @param <ICtcpRequest> request: The CTCP request
+  * @param <string[]> args: The DCC arguments
+  * @return <void>
+  * @private
+  */
+  private CHAT( request: ICtcpRequest, args: string[] ): void {
+    if ( this.reply( request.nick, args[ 1 ], +args[ 2 ], args[ 3 ] ) ) return;
+
+    this.offer({
+      type: 'CHAT',
+      nick: request.nick,
+      user: request.user,
+      filename: null,
+      host: Dcc.decode( args[ 1 ] ),
+      port: +args[ 2 ],
+      size: 0,
+      token: args[ 3 ] || null
+    });
+  }
+
+  /**
+  * DCC SEND <filename> <address> <port> <size> [token]
+  * @param <ICtcpRequest> request: The CTCP request
+  * @param <string[]> args: The DCC arguments
+  * @return <void>
+  * @private
+  */
+  private SEND( request: ICtcpRequest, args: string[] ): void {
+    if ( this.reply( request.nick, args[ 1 ], +args[ 2 ], args[ 4 ] ) ) return;
+
+    this.offer({
+      type: 'SEND',
+      nick: request.nick,
+      user: request.user,
+      filename: args[ 0 ],
+      host: Dcc.decode( args[ 1 ] ),
+      port: +args[ 2 ],
+      size: +args[ 3 ],
+      token: args[ 4 ] || null
+    });
+  }
+
+  /**
+  * DCC RESUME <filename> <port> <position> [token], the receiver of our offer asks to resume
+  * @param <ICtcpRequest> request: The CTCP request
+  * @param <string[]> args: The DCC arguments
+  * @return <void>
+  * @private
+  */
+  private RESUME( request: ICtcpRequest, args: string[] ): void {
+    let transfer = <DccTransfer>this.find( request.nick, +args[ 1 ], args[ 3 ] ),
+        position = +args[ 2 ];
+
+    if ( !( transfer instanceof DccTransfer ) || transfer.direction !== 'send' || transfer.connected )
+      return;
+
+    if ( !( position >= 0 && position < transfer.size ) )
+      return;
+
+    transfer.position = position;
+
+    this.ctcp( request.nick, [ 'ACCEPT', Dcc.quote( transfer.filename ), args[ 1 ], position, args[ 3 ] ] );
+  }
+
+  /**
+  * DCC ACCEPT <filename> <port> <position> [token], our request to resume was accepted
+  * @param <ICtcpRequest> request: The CTCP request
+  * @param <string[]> args: The DCC arguments
+  * @return <void>
+  * @private
+  */
+  private ACCEPT( request: ICtcpRequest, args: string[] ): void {
+    let transfer = <DccTransfer>this.find( request.nick, +args[ 1 ], args[ 3 ] );
+
+    if ( !( transfer instanceof DccTransfer ) || transfer.direction !== 'receive' || transfer.connected )
+      return;
+
+    this.release( transfer );
+
+    transfer.position = +args[ 2 ];
+
+    this.open( transfer, {
+      type: 'SEND',
+      nick: request.nick,
+      user: request.user,
+      filename: transfer.filename,
+      host: transfer.host,
+      port: transfer.port,
+      size: transfer.size,
+      token: transfer.token
+    });
+  }
+
+  /**
+  * Is this the reply to one of our passive offers? If so connect to it
+  * @param <string> nick: The nick replying
+  * @param <string> address: The address to connect to
+  * @param <number> port: The port to connect to
+  * @param <string> token: The token of our offer
+  * @return <boolean>
+  * @private
+  */
+  private reply( nick: string, address: string, port: number, token: string ): boolean {
+    let session = token && port ? this.find( nick, 0, token ) : null;
+
+    if ( !session ) return false;
+
+    this.release( session );
+    session.connect( Dcc.decode( address ), port );
+
+    return true;
+  }
+
+  /**
+  * Check and announce an offer, accepting it when configured to
+  * @param <IDccOffer> offer: The offer
+  * @return <void>
+  * @private
+  */
+  private offer( offer: IDccOffer ): void {
+    let reason = this.reject( offer );
+
+    if ( reason ) {
+      this.network.bot.Logger.info( `rejected DCC ${ offer.type } from ${ offer.nick } on ${ this.network.name }: ${ reason }` );
+      this.network.bot.emit( 'dcc_rejected::' + this.network.name, this.network, offer, reason );
+      return;
+    }
+
+    this.network.bot.emit( 'dcc_offer::' + this.network.name, this.network, offer );
+
+    if ( this.network.dcc_auto_accept )
+      this.accept( offer );
+  }
+
+  /**
+  * Why should the offer be rejected?
+  * @param <IDccOffer> offer: The offer
+  * @return <string> null when the offer is acceptable
+  * @private
+  */
+  private reject( offer: IDccOffer ): string {
+    let user = offer.user,
+        allowed = _.any( this.network.dcc_allowed, ( entry: string ) => {
+          if ( entry === '*' )
+            return true;
+
+          if ( !user )
+            return false;
+
+          // a hostmask, otherwise a services account
+          if ( /[!@]/.test( entry ) )
+            return user.matches( entry );
+
+          return !!user.account && this.network.equals( user.account, entry );
+        });
+
+    if ( !allowed )
+      return 'user is not allowed';
+
+    if ( !offer.host || !( offer.port >= 0 && offer.port < 65536 ) || ( !offer.port && !offer.token ) )
+      return 'invalid address';
+
+    if ( offer.type !== 'SEND' )
+      return null;
+
+    if ( !offer.filename || /^\.*$/.test( path.basename( offer.filename ) ) )
+      return 'invalid file name';
+
+    if ( !( offer.size >= 0 ) )
+      return 'invalid file size';
+
+    if ( this.network.dcc_max_size && offer.size > this.network.dcc_max_size )
+      return 'file is too large';
+
+    return null;
+  }
+
+  /**
+  * Connect to the other side, or listen and reply to a passive offer
+  * @param <DccSession> session: The session to open
+  * @param <IDccOffer> offer: The offer being accepted
+  * @return <DccSession>
+  * @private
+  */
+  private open( session: DccSession, offer: IDccOffer ): DccSession {
+    if ( offer.port ) {
+      session.connect( offer.host, offer.port );
+      return session;
+    }
+
+    session.listen( ( port: number ) => {
+      if ( offer.type === 'CHAT' )
+        this.ctcp( offer.nick, [ 'CHAT', 'chat', this.address(), port, offer.token ] );
+      else
+        this.ctcp( offer.nick, [ 'SEND', Dcc.quote( offer.filename ), this.address(), port, offer.size, offer.token ] );
+    });
+
+    return session;
+  }
+
+  /**
+  * Find a session waiting on the other side
+  * @param <string> nick: The nick of the other side
+  * @param <number> port: The port of an active offer
+  * @param <string> token: The token of a passive offer
+  * @return <DccSession>
+  * @private
+  */
+  private find( nick: string, port: number, token: string ): DccSession {
+    return _.find( this.pending, ( session: DccSession ) => {
+      if ( !this.network.equals( session.nick, nick ) )
+        return false;
+
+      return token ? session.token === token : !!port && session.port === port;
+    });
+  }
+
+  private release( session: DccSession ): void {
+    _.pull( this.pending, session );
+  }
+
+  /**
+  * Send a DCC request
+  * @param <string> nick: The target
+  * @param <any[]> args: The DCC arguments, empty arguments are dropped
+  * @return <void>
+  * @private
+  */
+  private ctcp( nick: string, args: any[] ): void {
+    args = _.filter( args, ( arg: any ) => {
+      return arg !== null && arg !== undefined;
+    });
+
+    this.network.send( `PRIVMSG ${ nick } :${ Ctcp.wrap( 'DCC', args.join( ' ' ) ) }` );
+  }
+
+  /**
+  * The address the other side should connect to
+  * @return <string>
+  * @private
+  */
+  private address(): string {
+    return Dcc.encode( this.network.dcc_host || this.network.connection.socket.localAddress );
+  }
+
+  /**
+  * The download directory, created when missing
+  * @return <string>
+  * @private
+  */
+  private directory(): string {
+    let directory = path.resolve( this.network.dcc_directory );
+
+    if ( !fs.existsSync( directory ) )
+      fs.mkdirSync( directory );
+
+    return directory;
+  }
+
+  /**
+  * A path not taken yet, numbering the file name, e.g. 'file (1).txt'
+  * @param <string> file: The path wanted
+  * @return <string>
+  * @private
+  */
+  private static unique( file: string ): string {
+    let extension = path.extname( file ),
+        base      = file.slice( 0, file.length - extension.length ),
+        candidate = file,
+        count     = 0;
+
+    while ( fs.existsSync( candidate ) )
+      candidate = `${ base } (${ ++count })${ extension }`;
+
+    return candidate;
+  }
+
+  private static quote( filename: string ): string {
+    return /\s/.test( filename ) ? `"${ filename }"` : filename;
+  }
+
+  private static token(): string {
+    return crypto.randomBytes( 4 ).readUInt32BE( 0 ).toString();
+  }
+}
+
+export interface IDccOffer {
+  /**
+  * 'CHAT' or 'SEND'
+  */
+  type: string;
+  nick: string;
+  user: IrcUser;
+  filename: string;
+  host: string;
+  /**
+  * 0 for a passive offer
+  */
+  port: number;
+  size: number;
+  token: string;
+}
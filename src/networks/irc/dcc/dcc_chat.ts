@@ -0,0 +1,56 @@
+
+import { DccSession } from './dcc_session';
+import { Socket } from 'net';
+import { Irc } from '../irc';
+
+/**
+* A DCC CHAT session, lines of text over a direct TCP stream
+*/
+
+export class DccChat extends DccSession {
+
+  private held: string = '';
+
+  constructor( network: Irc, nick: string ) {
+    super( network, nick );
+  }
+
+  /**
+  * Send a line of text
+  * @param <string> message: The text to send
+  * @return <void>
+  */
+  public say( message: string ): void {
+    if ( this.connected )
+      this.socket.write( message + '\n', this.network.encoding );
+  }
+
+  protected attach( socket: Socket ): void {
+    super.attach( socket );
+
+    socket.setEncoding( this.network.encoding );
+    socket.on( 'data', this.onData.bind( this ) );
+
+    this.network.bot.emit( 'dcc_chat::' + this.network.name, this.network, this );
+  }
+
+  protected onClose(): void {
+    this.network.bot.emit( 'dcc_chat_close::' + this.network.name, this.network, this );
+  }
+
+  /**
+  * Emit each complete line received
+  * @param <string> data: The received text
+  * @return <void>
+  * @private
+  */
+  private onData( data: string ): void {
+    let lines = ( this.held + data ).split( /\r?\n/ );
+
+    this.held = lines.pop();
+
+    lines.forEach( ( line ) => {
+      this.network.bot.emit( 'dcc_chat_message::' + this.network.name, this.network, this, line );
+    });
+  }
+}
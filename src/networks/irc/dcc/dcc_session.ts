@@ -0,0 +1,143 @@
+
+import { Socket, Server, createServer, connect } from 'net';
+import { Irc } from '../irc';
+
+/**
+* A direct TCP connection negotiated over CTCP DCC
+*
+* Either side may listen, in a passive ( reverse ) offer the side
+* receiving the offer listens and the offer carries a token instead of a port
+*/
+
+export abstract class DccSession {
+
+  public socket: Socket = null;
+  public connected: boolean = false;
+
+  /**
+  * The address of the other side, when it listens
+  */
+  public host: string = null;
+
+  /**
+  * The port we listen on, or the other side listens on
+  */
+  public port: number = 0;
+
+  /**
+  * The token of a passive offer
+  */
+  public token: string = null;
+
+  private server: Server = null;
+  private timeout: any;
+
+  /**
+  * @param <Irc> network: The network the offer was made on
+  * @param <string> nick: The nick of the other side
+  */
+  constructor( public network: Irc, public nick: string ) {
+
+  }
+
+  /**
+  * Wait for the other side to connect
+  * @param <Function> listening: Called with the port once listening
+  * @return <void>
+  */
+  public listen( listening: ( port: number ) => void ): void {
+    clearTimeout( this.timeout );
+
+    this.server = createServer( ( socket: Socket ) => {
+      this.stopListening();
+      this.attach( socket );
+    });
+
+    this.server.on( 'error', this.onError.bind( this ) );
+    this.server.on( 'listening', () => {
+      listening( this.port = this.server.address().port );
+    });
+
+    this.server.listen( this.network.dcc_port );
+
+    this.timeout = setTimeout( () => {
+      this.stopListening();
+      this.onError( new Error( `${ this.nick } did not connect` ) );
+    }, this.network.dcc_timeout );
+  }
+
+  /**
+  * Connect to the other side
+  * @param <string> host: The address to connect to
+  * @param <number> port: The port to connect to
+  * @return <void>
+  */
+  public connect( host: string, port: number ): void {
+    let socket: Socket;
+
+    clearTimeout( this.timeout );
+
+    socket = connect( this.port = port, this.host = host );
+
+    socket.on( 'connect', () => {
+      this.attach( socket );
+    });
+
+    socket.on( 'error', this.onError.bind( this ) );
+  }
+
+  /**
+  * Give up when the other side does not answer our offer, or request to resume, in time
+  * @return <void>
+  */
+  public wait(): void {
+    clearTimeout( this.timeout );
+
+    this.timeout = setTimeout( () => {
+      this.onError( new Error( `${ this.nick } did not reply` ) );
+    }, this.network.dcc_timeout );
+  }
+
+  /**
+  * End the session
+  * @return <void>
+  */
+  public close(): void {
+    this.stopListening();
+
+    if ( this.socket )
+      this.socket.end();
+  }
+
+  /**
+  * Take over the connected socket
+  * @param <Socket> socket: The connected socket
+  * @return <void>
+  */
+  protected attach( socket: Socket ): void {
+    this.socket    = socket;
+    this.connected = true;
+
+    socket.on( 'error', this.onError.bind( this ) );
+    socket.on( 'close', () => {
+      this.connected = false;
+      this.onClose();
+    });
+  }
+
+  protected abstract onClose(): void;
+
+  protected onError( err: Error ): void {
+    this.network.bot.Logger.warn( `DCC with ${ this.nick } on ${ this.network.name } failed: ${ err.message }` );
+    this.network.bot.emit( 'dcc_error::' + this.network.name, this.network, this, err );
+  }
+
+  private stopListening(): void {
+    clearTimeout( this.timeout );
+
+    if ( this.server ) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+
+import { DccSession } from './dcc_session';
+import { Socket } from 'net';
+import { Irc } from '../irc';
+import * as fs from 'fs';
+
+/**
+* A DCC SEND file transfer, in either direction
+*
+* The receiving side acknowledges every chunk with the total number of
+* bytes received so far, as a 32 bit big endian number
+*/
+
+export class DccTransfer extends DccSession {
+
+  /**
+  * Bytes transferred over this connection
+  */
+  public transferred: number = 0;
+
+  /**
+  * The offset the transfer started from, when resumed
+  */
+  public position: number = 0;
+
+  public complete: boolean = false;
+
+  private acknowledged: number = 0;
+  private acks: Buffer = new Buffer( 0 );
+  private finished: boolean = false;
+  private file: fs.WriteStream = null;
+
+  /**
+  * @param <Irc> network: The network the offer was made on
+  * @param <string> nick: The nick of the other side
+  * @param <string> direction: 'send' or 'receive'
+  * @param <string> filename: The file name as offered
+  * @param <string> path: The local file path
+  * @param <number> size: The file size in bytes
+  */
+  constructor( network: Irc, nick: string, public direction: string, public filename: string, public path: string, public size: number ) {
+    super( network, nick );
+  }
+
+  /**
+  * The number of bytes of the file transferred, including a resumed offset
+  * @return <number>
+  */
+  get total(): number {
+    return this.position + this.transferred;
+  }
+
+  protected attach( socket: Socket ): void {
+    super.attach( socket );
+
+    if ( this.direction === 'send' )
+      this.sendFile();
+    else
+      this.receiveFile();
+  }
+
+  protected onClose(): void {
+    let err = this.total >= this.size ? null : new Error( `transfer of ${ this.filename } ended after ${ this.total } of ${ this.size } bytes` );
+
+    if ( !this.file )
+      return this.finish( err );
+
+    // a received file is only complete once written out
+    this.file.on( 'finish', () => {
+      this.finish( err );
+    });
+
+    this.file.end();
+  }
+
+  /**
+  * Stream the file, reading acknowledgements as they arrive
+  * @return <void>
+  * @private
+  */
+  private sendFile(): void {
+    let stream = fs.createReadStream( this.path, { start: this.position } );
+
+    stream.on( 'error', this.onError.bind( this ) );
+    stream.on( 'data', ( chunk: Buffer ) => {
+      this.transferred += chunk.length;
+      this.progress();
+    });
+
+    stream.pipe( this.socket, { end: false } );
+
+    this.socket.on( 'data', ( data: Buffer ) => {
+      this.acks = Buffer.concat( [ this.acks, data ] );
+
+      while ( this.acks.length >= 4 ) {
+        this.acknowledged = this.acks.readUInt32BE( 0 );
+        this.acks = this.acks.slice( 4 );
+      }
+
+      // acknowledgements wrap around for files over 4GB
+      if ( this.acknowledged === this.size % 0x100000000 && this.total >= this.size )
+        this.socket.end();
+    });
+  }
+
+  /**
+  * Write the file, acknowledging each chunk
+  * @return <void>
+  * @private
+  */
+  private receiveFile(): void {
+    let stream = this.file = fs.createWriteStream( this.path, { flags: this.position ? 'a' : 'w' } );
+
+    stream.on( 'error', this.onError.bind( this ) );
+
+    this.socket.on( 'data', ( chunk: Buffer ) => {
+      let ack = new Buffer( 4 ),
+          remaining = Math.max( this.size - this.total, 0 );
+
+      // never write past the size that was offered
+      if ( chunk.length > remaining ) {
+        stream.write( chunk.slice( 0, remaining ) );
+        this.transferred += remaining;
+
+        this.finish( new Error( `${ this.filename } is larger than the offered ${ this.size } bytes` ) );
+        return this.socket.destroy();
+      }
+
+      this.transferred += chunk.length;
+
+      if ( this.network.dcc_max_size && this.total > this.network.dcc_max_size ) {
+        this.finish( new Error( `${ this.filename } exceeds the size limit` ) );
+        return this.socket.destroy();
+      }
+
+      stream.write( chunk );
+
+      ack.writeUInt32BE( this.total % 0x100000000, 0 );
+      this.socket.write( ack );
+
+      this.progress();
+
+      if ( this.total >= this.size )
+        this.socket.end();
+    });
+  }
+
+  private progress(): void {
+    this.network.bot.emit( 'dcc_progress::' + this.network.name, this.network, this, this.total, this.size );
+  }
+
+  /**
+  * @param <Error> err: The reason the transfer failed, if it did
+  * @return <void>
+  * @private
+  */
+  private finish( err?: Error ): void {
+    if ( this.finished ) return;
+
+    this.finished = true;
+
+    if ( err )
+      return this.onError( err );
+
+    this.complete = true;
+    this.network.bot.emit( 'dcc_complete::' + this.network.name, this.network, this );
+  }
+}
@@ -2,6 +2,10 @@
 
 import { Constants } from '../../constants/constants';
 import { Message } from '../../messaging/message';
+import { IrcChannel } from './irc_channel';
+import { Ctcp, ICtcpRequest } from './ctcp';
+import { IrcUser } from './irc_user';
+import { Modes } from './modes';
 import { Irc } from './irc';
 import * as _ from 'lodash';
 
@@ -59,7 +63,7 @@ export class Handler {
   }
 
   public ERR_NOSUCHNICK( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.error( 'WHOIS', message.params[ 1 ], message.params[ 2 ] );
   }
   public ERR_NOSUCHSERVER( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -74,7 +78,7 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public ERR_WASNOSUCHNICK( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.error( 'WHOWAS', message.params[ 1 ], message.params[ 2 ] );
   }
   public ERR_TOOMANYTARGETS( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -119,11 +123,11 @@ export class Handler {
   */
   public ERR_NICKNAMEINUSE( message: any ): void {
     if ( this.network.connection.registered )
-      return;
+      return this.network.nick_services.inUse( message.params[ 1 ] );
 
     let use_nick: string;
 
-    if ( this.network.nick === this.network.connection.nick ) {
+    if ( this.network.isMe( this.network.nick ) ) {
       use_nick = this.network.alt_nick;
     }
     else {
@@ -177,25 +181,28 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public ERR_CHANNELISFULL( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.joinFailed( message, 'full' );
   }
   public ERR_UNKNOWNMODE( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public ERR_INVITEONLYCHAN( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.joinFailed( message, 'invite_only' );
   }
   public ERR_BANNEDFROMCHAN( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.joinFailed( message, 'banned' );
   }
   public ERR_BADCHANNELKEY( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.joinFailed( message, 'bad_key' );
   }
   public ERR_NOPRIVILEGES( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public ERR_CHANOPRIVSNEEDED( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( channel )
+      this.network.chan_services.opsNeeded( channel );
   }
   public ERR_CANTKILLSERVER( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -216,40 +223,54 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public RPL_ISON( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.monitor.ison( message.params[ 1 ] );
   }
   public RPL_AWAY( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let user = this.network.findUser( message.params[ 1 ] );
+
+    if ( user )
+      user.setAway( message.params[ 2 ] || '' );
   }
   public RPL_UNAWAY( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.away = false;
+    this.network.away_message = null;
+
+    this.network.bot.emit( 'away::' + this.network.name, this.network, this.network.myNick(), null );
   }
   public RPL_NOWAWAY( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.away = true;
+
+    this.network.bot.emit( 'away::' + this.network.name, this.network, this.network.myNick(), this.network.away_message );
   }
   public RPL_WHOISUSER( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.user( message.params );
   }
   public RPL_WHOISSERVER( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.server( message.params );
   }
   public RPL_WHOISOPERATOR( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.operator( message.params );
   }
   public RPL_WHOISIDLE( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.idle( message.params );
   }
   public RPL_ENDOFWHOIS( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.end( 'WHOIS', message.params[ 1 ] );
   }
   public RPL_WHOISCHANNELS( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.channels( message.params );
+  }
+  public RPL_WHOISACCOUNT( message: any ): void {
+    this.network.whois_queries.account( message.params );
+  }
+  public RPL_WHOISSECURE( message: any ): void {
+    this.network.whois_queries.secure( message.params );
   }
   public RPL_WHOWASUSER( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.user( message.params );
   }
   public RPL_ENDOFWHOWAS( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.whois_queries.end( 'WHOWAS', message.params[ 1 ] );
   }
   public RPL_LISTSTART( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -261,14 +282,33 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public RPL_CHANNELMODEIS( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( !channel ) return;
+
+    channel.applyModes( Modes.parse( message.params[ 2 ], message.params.slice( 3 ), this.network.ircd.chanmodes, this.network.ircd.prefix ) );
   }
   public RPL_NOTOPIC( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( channel )
+      channel.updateTopic( null );
   }
 
   public RPL_TOPIC( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( channel )
+      channel.updateTopic( message.params[ 2 ] || null );
+  }
+
+  public RPL_TOPICWHOTIME( message: any ): void {
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( !channel ) return;
+
+    channel.topic_setter = message.params[ 2 ];
+    channel.topic_time   = parseInt( message.params[ 3 ], 10 ) * 1000 || null;
   }
 
   public RPL_INVITING( message: any ): void {
@@ -283,37 +323,67 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
 
+  /**
+  * Update the user with the details of a WHO reply
+  * @param <any> message: The reply details
+  * @return <void>
+  */
   public RPL_WHOREPLY( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.who.reply( message.params );
   }
 
+  /**
+  * Signal the users matching a WHO request have been updated
+  * @param <any> message: params are [ nick, target, text ]
+  * @return <void>
+  */
   public RPL_ENDOFWHO( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.bot.emit( 'who::' + this.network.name, this.network, message.params[ 1 ] );
   }
 
   public RPL_NAMREPLY( message: any ): void {
     this.RPL_NAMEREPLY( message );
   }
 
+  /**
+  * Buffer the names of a channel until RPL_ENDOFNAMES
+  * @param <any> message: params are [ nick, symbol, channel, names ]
+  * @return <void>
+  */
   public RPL_NAMEREPLY( message: any ): void {
-    let channel = this.network.channel[ message.params[ 2 ] ];
-    let names   = message.params[ message.params.length-1 ].split( ' ' );
+    let channel = this.network.findChannel( message.params[ 2 ] );
 
-    _.remove( names, ( name ) => {
-      return this.network.connection.nick === name;
-    });
+    if ( !channel ) return;
 
-    names.forEach( ( name: string ) => {
-      channel.addUser( { name: name } );
-    });
+    channel.addNames( message.params[ message.params.length-1 ].trim().split( ' ' ) );
   }
 
+  /**
+  * Update the user with the details of a WHOX reply
+  * @param <any> message: The reply details
+  * @return <void>
+  */
   public RPL_WHOSPCRPL( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let user = this.network.findUser( message.params[ 5 ] ),
+        account = user ? user.account : null;
+
+    user = this.network.who.special( message.params );
+
+    if ( user && user.account !== account )
+      this.checkAccount( user );
   }
 
+  /**
+  * Replace the channel roster and emit the complete list of names
+  * @param <any> message: params are [ nick, channel, text ]
+  * @return <void>
+  */
   public RPL_ENDOFNAMES( message: any ): void {
-    // do we really need to do anything??
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( !channel ) return;
+
+    this.network.bot.emit( 'names::' + this.network.name, this.network, channel, channel.endNames() );
   }
   public RPL_LINKS( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -322,10 +392,22 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public RPL_BANLIST( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.listEntry( message, 'b' );
   }
   public RPL_ENDOFBANLIST( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.endList( message, 'b' );
+  }
+  public RPL_EXCEPTLIST( message: any ): void {
+    this.listEntry( message, this.network.ircd.excepts || 'e' );
+  }
+  public RPL_ENDOFEXCEPTLIST( message: any ): void {
+    this.endList( message, this.network.ircd.excepts || 'e' );
+  }
+  public RPL_INVITELIST( message: any ): void {
+    this.listEntry( message, this.network.ircd.invex || 'I' );
+  }
+  public RPL_ENDOFINVITELIST( message: any ): void {
+    this.endList( message, this.network.ircd.invex || 'I' );
   }
   public RPL_INFO( message: any ): void {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
@@ -334,6 +416,11 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
 
+  public RPL_ISUPPORT( message: any ): void {
+    // the first parameter is our nick, the last is ':are supported by this server'
+    this.network.ircd.isupport( message.params.slice( 1, -1 ) );
+  }
+
   /**
   * Message of the day handlers
   */
@@ -472,37 +559,51 @@ export class Handler {
     this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
   }
   public RPL_MONONLINE( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.monitor.online( message.params[ 1 ] );
   }
   public RPL_MONOFFLINE( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.monitor.offline( message.params[ 1 ] );
   }
   public RPL_MONLIST( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    this.network.monitor.listed( message.params[ 1 ] );
   }
   public RPL_ENDOFMONLIST( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    // nothing to do, the list arrived with RPL_MONLIST
   }
   public ERR_MONLISTFULL( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    // params are [ nick, limit, targets, text ]
+    this.network.monitor.full( message.params[ 2 ] );
   }
   public RPL_SASLLOGIN( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    // params are [ nick, nick!ident@host, account, text ]
+    this.network.nick_services.loggedIn( message.params[ 2 ] );
+  }
+  public RPL_SASLLOGOUT( message: any ): void {
+    this.network.nick_services.loggedOut();
   }
   public RPL_SASLSUCCESS( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    if ( this.network.authenticator )
+      this.network.authenticator.success();
   }
   public RPL_SASLFAILED( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    if ( this.network.authenticator )
+      this.network.authenticator.failure( message.params[ message.params.length - 1 ] );
   }
   public RPL_SASLERROR( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    if ( this.network.authenticator )
+      this.network.authenticator.failure( message.params[ message.params.length - 1 ] );
   }
   public RPL_SASLABORT( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    if ( this.network.authenticator )
+      this.network.authenticator.failure( message.params[ message.params.length - 1 ] );
   }
   public RPL_SASLALREADYAUTH( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    if ( this.network.authenticator )
+      this.network.authenticator.success();
+  }
+  public RPL_SASLMECHS( message: any ): void {
+    if ( this.network.authenticator )
+      this.network.authenticator.supported( message.params[ 1 ] );
   }
 
   private PING( message: any ): void {
@@ -517,54 +618,128 @@ export class Handler {
     this.network.send( message.params.pop().match(/\/(.*)/ ).pop() );
   }
 
+  /**
+  * Capability negotiation
+  * @param <any> message: params are [ nick, subcommand, '*'?, capabilities ]
+  * @return <void>
+  */
   private CAP( message: any ): void {
-    // thanks Kiwi
-    let capabilities = message.params[ message.params.length - 1 ].replace( /(?:^| )[\-~=]/, '' ).split( ' ' );
-
-    if ( !this.network.sasl ) {
-      _.remove( capabilities, ( cap ) => {
-        return cap === 'sasl';
-      });
-    }
+    let caps = message.params[ message.params.length - 1 ];
 
-    switch ( message.params[ 1 ] ) {
+    switch ( ( message.params[ 1 ] || '' ).toUpperCase() ) {
       case 'LS':
-        capabilities = []; //temporary, will deal with this soon
-        if ( capabilities.length ) {
-          this.network.connection.capabilities.requested = capabilities;
-          this.network.connection.sendCapReq( capabilities.join( ' ' ) );
-        }
-        else {
-          this.network.connection.sendCapEnd();
-        }
+        this.network.caps.ls( message.params );
+
+        break;
+      case 'ACK':
+        this.network.caps.ack( caps );
+
         break;
-        case 'ACK':
-          if ( capabilities.length ) {
-            // Update list of enabled capabilities
-            this.network.connection.capabilities.enabled = capabilities;
-            // Update list of capabilities we would like to have but that aren't enabled
-            this.network.connection.capabilities.requested = _.difference( this.network.connection.capabilities.requested, capabilities );
-          }
-          if ( this.network.connection.capabilities.enabled.length ) {
-            if ( _.contains( this.network.connection.capabilities.enabled, 'sasl' ) ) {
-              this.network.send( 'AUTHENTICATE PLAIN' );
-            }
-            else {
-              this.network.connection.sendCapEnd();
-            }
-          }
-          break;
       case 'NAK':
-          if ( capabilities.length ) {
-            this.network.connection.capabilities.requested = _.difference( this.network.connection.capabilities.requested, capabilities );
-          }
-          if ( this.network.connection.capabilities.requested.length ) {
-            this.network.connection.sendCapEnd();
-          }
-          break;
+        this.network.caps.nak( caps );
+
+        break;
+      case 'NEW':
+        this.network.caps.add( caps );
+
+        break;
+      case 'DEL':
+        this.network.caps.del( caps );
+
+        break;
       case 'LIST':
-          // should we do anything here?
-          break;
+        this.network.caps.list( message.params );
+
+        break;
+    }
+  }
+
+  /**
+  * A SASL challenge from the server
+  * @param <any> message: params are [ base64 chunk or '+' ]
+  * @return <void>
+  */
+  private AUTHENTICATE( message: any ): void {
+    if ( this.network.authenticator )
+      this.network.authenticator.authenticate( message.params[ 0 ] );
+  }
+
+  /**
+  * A user logged in to or out of a services account ( account-notify )
+  * @param <any> message: params are [ account ], '*' when logged out
+  * @return <void>
+  */
+  private ACCOUNT( message: any ): void {
+    let user = this.network.findUser( message.nick );
+
+    if ( !user ) return;
+
+    user.account = message.params[ 0 ] === '*' ? null : message.params[ 0 ];
+
+    this.checkAccount( user );
+  }
+
+  /**
+  * A user logged in, they may hold flags by their account in the channels we share
+  * @param <IrcUser> user: The user
+  * @return <void>
+  * @private
+  */
+  private checkAccount( user: IrcUser ): void {
+    if ( !user.account ) return;
+
+    _.each( this.network.channel, ( channel: IrcChannel ) => {
+      if ( channel.userInChannel( user ) )
+        this.network.user_db.check( channel, user );
+    });
+  }
+
+  /**
+  * A user went away or came back ( away-notify )
+  * @param <any> message: params are [ away message ], empty when back
+  * @return <void>
+  */
+  private AWAY( message: any ): void {
+    let channels: IrcChannel[];
+
+    // our own status is confirmed by RPL_NOWAWAY and RPL_UNAWAY
+    if ( this.network.isMe( message.nick ) ) return;
+
+    message.user = this.network.findUser( message.nick );
+
+    if ( !message.user ) return;
+
+    message.message = message.params[ 0 ] || '';
+
+    if ( message.message )
+      message.user.setAway( message.message );
+    else
+      message.user.setBack();
+
+    this.network.bot.emit( 'away::' + this.network.name, this.network, message.nick, message.user.away_message );
+
+    channels = _.filter( this.network.channel, ( channel: IrcChannel ) => {
+      return channel.userInChannel( message.user );
+    });
+
+    this.routeChannels( message, channels, 'away' );
+  }
+
+  /**
+  * A user changed ident or host ( chghost )
+  * @param <any> message: params are [ ident, hostname ]
+  * @return <void>
+  */
+  private CHGHOST( message: any ): void {
+    let user = this.network.findUser( message.nick );
+
+    if ( this.network.isMe( message.nick ) ) {
+      this.network.ident    = message.params[ 0 ];
+      this.network.hostname = message.params[ 1 ];
+    }
+    else if ( user ) {
+      user.ident    = message.params[ 0 ];
+      user.hostname = message.params[ 1 ];
     }
   }
 
@@ -583,7 +758,7 @@ export class Handler {
     nick = message.nick;
 
     // the bot parted the channel
-    if ( nick === this.network.connection.nick )
+    if ( this.network.isMe( nick ) )
       message.channel.inChannel = false;
     else {
       message.user = this.network.findUser( nick );
@@ -617,12 +792,15 @@ export class Handler {
     hostname = message.hostname;
 
     // the bot joined the channel
-    if ( nick === this.network.connection.nick ) {
+    if ( this.network.isMe( nick ) ) {
       message.channel.inChannel = true;
 
       this.network.ident    = ident;
       this.network.hostname = hostname;
 
+      this.network.send( `MODE ${ message.channel.name }` );
+      this.network.who.request( message.channel.name );
+
     }
     // someone else joined the channel
     else {
@@ -631,6 +809,14 @@ export class Handler {
           ident: ident,
           hostname: hostname
       });
+
+      // extended-join adds the account and realname
+      if ( message.params.length > 2 ) {
+        message.user.account  = message.params[ 1 ] === '*' ? null : message.params[ 1 ];
+        message.user.realname = message.params[ 2 ];
+      }
+
+      this.network.user_db.check( message.channel, message.user );
     }
 
     msg = new Message( message );
@@ -641,6 +827,225 @@ export class Handler {
     this.route( msg );
   }
 
+  /**
+  * Called when a user, or the bot, changes nick
+  * @param <any> message: The nick change details
+  * @return <void>
+  */
+  private NICK( message: any ): void {
+    let channels: IrcChannel[],
+        nick: string;
+
+    nick = message.nick;
+    message.new_nick = message.params[ 0 ];
+
+    // the bot changed nick
+    if ( this.network.isMe( nick ) ) {
+      this.network.connection.nick = message.new_nick;
+      this.network.nick_services.changed();
+
+      channels = _.filter( this.network.channel, ( channel: IrcChannel ) => {
+        return channel.inChannel;
+      });
+    }
+    // someone else changed nick
+    else {
+      this.network.nick_services.released( nick );
+
+      message.user = this.network.findUser( nick );
+
+      if ( !message.user ) return;
+
+      channels = _.filter( this.network.channel, ( channel: IrcChannel ) => {
+        return channel.userInChannel( message.user );
+      });
+
+      this.network.renameUser( message.user, message.new_nick );
+    }
+
+    channels.forEach( ( channel ) => {
+      channel.renameStatus( nick, message.new_nick );
+    });
+
+    this.routeChannels( message, channels, 'nick' );
+  }
+
+  /**
+  * Called when a user quits the network
+  * @param <any> message: The quitting user details
+  * @return <void>
+  */
+  private QUIT( message: any ): void {
+    let channels: IrcChannel[];
+
+    // our own quit is dealt with by the connection
+    if ( this.network.isMe( message.nick ) ) return;
+
+    this.network.nick_services.released( message.nick );
+
+    message.user = this.network.findUser( message.nick );
+
+    if ( !message.user ) return;
+
+    message.message = message.params[ 0 ] || '';
+
+    channels = _.filter( this.network.channel, ( channel: IrcChannel ) => {
+      return channel.userInChannel( message.user );
+    });
+
+    this.network.removeUser( message.user );
+
+    this.routeChannels( message, channels, 'quit' );
+  }
+
+  /**
+  * Called when a user, or the bot, is kicked from a channel
+  * @param <any> message: The kick details
+  * @return <void>
+  */
+  private KICK( message: any ): void {
+    let msg: Message,
+        victim: IrcUser,
+        dropped: IrcUser[];
+
+    message.channel = this.network.findChannel( message.params[ 0 ] );
+
+    if ( !message.channel ) return;
+
+    message.target  = message.channel;
+    message.user    = this.network.findUser( message.nick );
+    message.victim  = message.params[ 1 ];
+    message.message = message.params[ 2 ] || '';
+
+    // the bot was kicked from the channel
+    if ( this.network.isMe( message.victim ) ) {
+      dropped = message.channel.users;
+
+      message.channel.inChannel = false;
+      message.channel.users = [];
+      message.channel.status = {};
+
+      // forget the users we no longer share a channel with
+      _.each( dropped, ( user: IrcUser ) => {
+        if ( !_.any( this.network.channel, ( channel: IrcChannel ) => channel.userInChannel( user ) ) )
+          this.network.removeUser( user );
+      });
+
+      if ( this.network.auto_rejoin )
+        message.channel.rejoin();
+    }
+    else if ( victim = this.network.findUser( message.victim ) ) {
+      message.channel.removeUser( victim );
+    }
+
+    msg = new Message( message );
+
+    msg.events.push( 'kick' );
+    msg.events.push( 'public' );
+
+    this.route( msg );
+  }
+
+  /**
+  * Called when the topic of a channel changes
+  * @param <any> message: params are [ channel, topic ], an empty topic when unset
+  * @return <void>
+  */
+  private TOPIC( message: any ): void {
+    let msg: Message;
+
+    message.channel = this.network.findChannel( message.params[ 0 ] );
+
+    if ( !message.channel ) return;
+
+    message.target  = message.channel;
+    message.user    = this.network.findUser( message.nick );
+    message.message = message.params[ 1 ] || '';
+
+    message.channel.updateTopic( message.message || null, message.nick, message.timestamp || Date.now() );
+
+    this.network.bot.emit( 'topic::' + this.network.name, this.network, message.channel, message.channel.topic, message.nick );
+
+    msg = new Message( message );
+
+    msg.events.push( 'topic' );
+    msg.events.push( 'public' );
+
+    this.route( msg );
+  }
+
+  /**
+  * Called when we are invited to a channel
+  * @param <any> message: params are [ our nick, channel ]
+  * @return <void>
+  */
+  private INVITE( message: any ): void {
+    this.network.bot.emit( 'invite::' + this.network.name, this.network, message.nick, message.params[ 1 ] );
+
+    this.network.chan_services.invited( message.params[ 1 ] );
+  }
+
+  /**
+  * An entry of a channel list, e.g. RPL_BANLIST
+  * @param <any> message: params are [ our nick, channel, mask, setter, time ], setter and time are optional
+  * @param <string> mode: The list mode
+  * @return <void>
+  */
+  private listEntry( message: any, mode: string ): void {
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( channel )
+      channel.addListEntry( mode, message.params[ 2 ], message.params[ 3 ] || null, parseInt( message.params[ 4 ], 10 ) * 1000 || null );
+  }
+
+  /**
+  * The end of a channel list, e.g. RPL_ENDOFBANLIST
+  * @param <any> message: params are [ our nick, channel, text ]
+  * @param <string> mode: The list mode
+  * @return <void>
+  */
+  private endList( message: any, mode: string ): void {
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    if ( channel )
+      this.network.bot.emit( 'list::' + this.network.name, this.network, channel, mode, channel.endList( mode ) );
+  }
+
+  /**
+  * We could not join a channel, let channel services try to help
+  * @param <any> message: params are [ our nick, channel, text ]
+  * @param <string> reason: 'banned', 'invite_only', 'bad_key' or 'full'
+  * @return <void>
+  */
+  private joinFailed( message: any, reason: string ): void {
+    let channel = this.network.findChannel( message.params[ 1 ] );
+
+    this.network.bot.Logger.warn( `unable to join ${ message.params[ 1 ] } on ${ this.network.name }: ${ message.params[ 2 ] }` );
+    this.network.bot.emit( 'join_failed::' + this.network.name, this.network, message.params[ 1 ], reason );
+
+    if ( channel )
+      this.network.chan_services.joinFailed( channel, reason );
+  }
+
+  /**
+  * Route a copy of a message for each channel, so bindings may relay
+  * network wide events such as NICK and QUIT
+  * @param <any> message: The message object literal to copy
+  * @param <IrcChannel[]> channels: The channels affected by the event
+  * @param <string> event: The event to add to each message
+  * @return <void>
+  */
+  private routeChannels( message: any, channels: IrcChannel[], event: string ): void {
+    channels.forEach( ( channel ) => {
+      let msg = new Message( _.extend( {}, message, { channel: channel, target: channel } ) );
+
+      msg.events.push( event );
+      msg.events.push( 'public' );
+
+      this.route( msg );
+    });
+  }
+
   /**
   * Send a message to the router
   * @param <any> message: The message object literal to send
@@ -669,6 +1074,8 @@ export class Handler {
   * @return <void>
   */
   private NOTICE( message: any ): void {
+    this.network.nick_services.notice( message );
+    this.network.chan_services.notice( message );
     this.defineMessage( message );
   }
 
@@ -679,25 +1086,33 @@ export class Handler {
   */
   private defineMessage( message: any ): void {
     let msg: Message,
-        match: RegExpExecArray;
+        ctcp: { command: string, args: string };
+
+    // our own message, echoed back by echo-message
+    if ( this.network.isMe( message.nick ) ) return;
 
-    message.channel = this.network.channel[ message.params[ 0 ].toLowerCase() ];
+    message.channel = this.network.findChannel( message.params[ 0 ] );
     message.user    = this.network.findUser( message.nick );
-    message.target  = message.channel || message.user;
 
-    if ( !message.target ) return;
+    // someone we share no channel with messaged us directly, servers have no host,
+    // the user is not added to the network as nothing would remove them again
+    if ( !message.user && this.network.isMe( message.params[ 0 ] ) && message.hostname )
+      message.user = new IrcUser( this.network, { name: message.nick, ident: message.ident, hostname: message.hostname } );
 
-    message.message = message.params[ 1 ];
+    message.target  = message.channel || message.user;
 
-    match = /^(\u0001)(.*)(\u0001)$/.exec( message.params[ 1 ] );
+    // CTCP may come from anyone, in a channel or not, actions are messages
+    if ( Ctcp.is( message.params[ 1 ] ) ) {
+      ctcp = Ctcp.parse( message.params[ 1 ] );
 
-    if ( match && message.target == message.user ) {
-      // we don't want it to match action
-      if ( !message.message.substr( 1, 6 ).match( /^ACTION$/ ) ) {
-        return this.handleCTCP( message, match );
-      }
+      if ( ctcp.command !== 'ACTION' )
+        return this.handleCTCP( message, ctcp );
     }
 
+    if ( !message.target ) return;
+
+    message.message = message.params[ 1 ];
+
     msg = new Message( message );
 
     /**
@@ -726,13 +1141,62 @@ export class Handler {
   }
 
   /**
-  * @todo handle VERSION , SOURCE and other CTCP queries
+  * Pass a CTCP request ( PRIVMSG ) or reply ( NOTICE ) to the dispatcher
+  * @param <any> message: The message details
+  * @param <Object> ctcp: The parsed command and arguments
+  * @return <void>
   */
-  private handleCTCP( message: any, match: RegExpExecArray ): void {
-    console.log( 'ctcp', match );
+  private handleCTCP( message: any, ctcp: { command: string, args: string } ): void {
+    let request: ICtcpRequest = {
+      nick: message.nick,
+      user: message.user,
+      target: message.params[ 0 ],
+      command: ctcp.command,
+      args: ctcp.args
+    };
+
+    if ( /^NOTICE$/i.test( message.command ) )
+      this.network.ctcp.reply( request );
+    else
+      this.network.ctcp.request( request );
   }
 
+  /**
+  * Called when channel or user modes change
+  * @param <any> message: The mode change details
+  * @return <void>
+  */
   private MODE( message: any ): void {
-    this.network.bot.Logger.warn( 'IRC Constant ' + Constants.IRC[ message.command ] + ' handler defined with no implementation' );
+    let msg: Message,
+        target = message.params[ 0 ],
+        modes  = message.params[ 1 ],
+        params = message.params.slice( 2 );
+
+    // user modes
+    if ( !this.network.ircd.isChannel( target ) ) {
+      if ( this.network.isMe( target ) )
+        this.network.connection.applyUserModes( modes );
+
+      return;
+    }
+
+    message.channel = this.network.findChannel( target );
+
+    if ( !message.channel ) return;
+
+    message.target  = message.channel;
+    message.user    = this.network.findUser( message.nick );
+    message.message = message.params.slice( 1 ).join( ' ' );
+    message.modes   = Modes.parse( modes, params, this.network.ircd.chanmodes, this.network.ircd.prefix );
+
+    message.channel.applyModes( message.modes, message.nick );
+    this.network.user_db.modes( message.channel, message.modes );
+
+    msg = new Message( message );
+
+    msg.events.push( 'mode' );
+    msg.events.push( 'public' );
+
+    this.route( msg );
   }
 }
@@ -0,0 +1,239 @@
+
+import { CaseMapping } from './casemapping';
+
+/**
+* Parse, build and match nick!ident@host masks
+*
+* Wildcards are * for any run of characters and ? for any single one.
+* Nicks, idents and hosts are compared according to the servers case mapping.
+* Extended bans ( e.g. '$a:account' or '~a:account' ) are matched according to
+* the servers EXTBAN token, for the account, realname and full mask types
+*/
+
+export module Hostmask {
+
+  /**
+  * Extended ban types we can match, by letter or name
+  */
+  const EXTBAN_TYPES: { [ type: string ]: string } = {
+    a: 'account',
+    R: 'account',
+    account: 'account',
+    r: 'realname',
+    realname: 'realname',
+    x: 'full'
+  };
+
+  /**
+  * Split a mask into its parts, missing parts are '*'
+  * 'nick' => nick!*@*, 'ident@host' => *!ident@host, 'nick!ident' => nick!ident@*
+  * @param <string> mask: The mask
+  * @return <IHostmask>
+  */
+  export function parse( mask: string ): IHostmask {
+    let match = /^([^!@]*)(?:!([^@]*))?(?:@(.*))?$/.exec( mask || '' ) || [ null, mask, null, null ],
+        nick  = match[ 1 ],
+        ident = match[ 2 ],
+        host  = match[ 3 ];
+
+    // 'ident@host' has no nick
+    if ( ident === undefined && host !== undefined ) {
+      ident = nick;
+      nick  = null;
+    }
+
+    return {
+      nick: nick || '*',
+      ident: ident || '*',
+      host: host || '*'
+    };
+  }
+
+  /**
+  * Join mask parts, missing parts are '*'
+  * @param <IHostmask> parts: The mask parts
+  * @return <string>
+  */
+  export function format( parts: IHostmask ): string {
+    return `${ parts.nick || '*' }!${ parts.ident || '*' }@${ parts.host || '*' }`;
+  }
+
+  /**
+  * Complete a mask to its nick!ident@host form
+  * @param <string> mask: e.g. 'nick' or '*@host'
+  * @return <string>
+  */
+  export function normalize( mask: string ): string {
+    return format( parse( mask ) );
+  }
+
+  /**
+  * Build a ban mask for a user
+  *   'host':   *!*@host
+  *   'domain': *!*@*.domain
+  *   'ident':  *!ident@*.domain
+  *   'user':   *!ident@host
+  *   'nick':   nick!*@*
+  *   'full':   nick!ident@host
+  * A '~' marking an unverified ident becomes '*'
+  * @param <IHostmask> parts: The users nick, ident and host
+  * @param <string> style: The style of mask
+  * @return <string>
+  */
+  export function ban( parts: IHostmask, style: string = 'host' ): string {
+    let ident = ( parts.ident || '*' ).replace( /^~/, '*' ),
+        host  = parts.host || '*';
+
+    switch ( style ) {
+      case 'domain':
+        return format( { nick: '*', ident: '*', host: domain( host ) } );
+
+      case 'ident':
+        return format( { nick: '*', ident: ident, host: domain( host ) } );
+
+      case 'user':
+        return format( { nick: '*', ident: ident, host: host } );
+
+      case 'nick':
+        return format( { nick: parts.nick, ident: '*', host: '*' } );
+
+      case 'full':
+        return format( { nick: parts.nick, ident: parts.ident, host: host } );
+
+      default:
+        return format( { nick: '*', ident: '*', host: host } );
+    }
+  }
+
+  /**
+  * Replace the most specific part of a host with a wildcard
+  * 'a.b.example.com' => '*.b.example.com', '192.0.2.1' => '192.0.2.*'
+  * Two label domains and cloaks ( e.g. 'user/kwirk' ) are kept
+  * @param <string> host: The host
+  * @return <string>
+  */
+  export function domain( host: string ): string {
+    if ( !host || host.indexOf( '/' ) >= 0 )
+      return host || '*';
+
+    if ( /^\d{1,3}(\.\d{1,3}){3}$/.test( host ) )
+      return host.replace( /\.\d+$/, '.*' );
+
+    if ( host.indexOf( ':' ) >= 0 )
+      return host.replace( /:[^:]*$/, ':*' );
+
+    if ( host.split( '.' ).length > 2 )
+      return host.replace( /^[^.]+/, '*' );
+
+    return host;
+  }
+
+  /**
+  * Match a value against a wildcard pattern
+  * @param <string> pattern: The pattern, e.g. '*.example.com'
+  * @param <string> value: The value
+  * @param <string> mapping: The case mapping, e.g. 'rfc1459'
+  * @return <boolean>
+  */
+  export function wildcard( pattern: string, value: string, mapping: string = 'rfc1459' ): boolean {
+    let expression = CaseMapping.lower( pattern || '', mapping )
+      .replace( /[\-\[\]\/\{\}\(\)\+\.\\\^\$\|]/g, '\\$&' )
+      .replace( /\*/g, '.*' )
+      .replace( /\?/g, '.' );
+
+    return new RegExp( `^${ expression }$` ).test( CaseMapping.lower( value || '', mapping ) );
+  }
+
+  /**
+  * Does the mask, or extended ban, match the user?
+  * @param <string> mask: The mask, e.g. '*!*@*.example.com' or '$a:account'
+  * @param <IMaskTarget> target: The users details
+  * @param <string> mapping: The case mapping, e.g. 'rfc1459'
+  * @param <IExtban> extban: The servers EXTBAN token, null when not supported
+  * @return <boolean>
+  */
+  export function matches( mask: string, target: IMaskTarget, mapping: string = 'rfc1459', extban: IExtban = null ): boolean {
+    let extended = extban ? parseExtban( mask, extban ) : null,
+        parts: IHostmask;
+
+    if ( extended )
+      return matchExtban( extended, target, mapping );
+
+    parts = parse( mask );
+
+    return wildcard( parts.nick, target.nick, mapping )
+      && wildcard( parts.ident, target.ident || '', mapping )
+      && wildcard( parts.host, target.host || '', mapping );
+  }
+
+  /**
+  * Split an extended ban into its parts
+  * @param <string> mask: e.g. '$~a', '$a:account' or '~r:*bot*'
+  * @param <IExtban> extban: The servers EXTBAN token
+  * @return <Object> null when the mask is not an extended ban
+  */
+  function parseExtban( mask: string, extban: IExtban ): { negated: boolean, type: string, value: string } {
+    let prefix = extban.prefix.replace( /[\$\~]/g, '\\$&' ),
+        // without a prefix the type must be followed by a ':'
+        match  = new RegExp( `^${ prefix }(~?)([A-Za-z]+)${ prefix ? '(?::(.*))?' : ':(.*)' }$` ).exec( mask || '' );
+
+    if ( !match || ( match[ 2 ].length === 1 && extban.types.indexOf( match[ 2 ] ) < 0 ) )
+      return null;
+
+    return {
+      negated: !!match[ 1 ],
+      type: match[ 2 ],
+      value: match[ 3 ] === undefined ? null : match[ 3 ]
+    };
+  }
+
+  /**
+  * Match an extended ban, types we cannot check never match
+  * @param <Object> extended: The extended ban parts
+  * @param <IMaskTarget> target: The users details
+  * @param <string> mapping: The case mapping
+  * @return <boolean>
+  */
+  function matchExtban( extended: { negated: boolean, type: string, value: string }, target: IMaskTarget, mapping: string ): boolean {
+    let matched: boolean;
+
+    switch ( EXTBAN_TYPES[ extended.type ] ) {
+      case 'account':
+        // without a value any logged in user matches
+        matched = !!target.account && ( extended.value === null || wildcard( extended.value, target.account, mapping ) );
+        break;
+
+      case 'realname':
+        matched = extended.value !== null && wildcard( extended.value, target.realname || '', mapping );
+        break;
+
+      case 'full':
+        matched = extended.value !== null && wildcard( extended.value, `${ format( target ) }#${ target.realname || '' }`, mapping );
+        break;
+
+      default:
+        return false;
+    }
+
+    return extended.negated ? !matched : matched;
+  }
+}
+
+export interface IHostmask {
+  nick: string;
+  ident: string;
+  host: string;
+}
+
+export interface IMaskTarget extends IHostmask {
+  account?: string;
+  realname?: string;
+}
+
+/**
+* The EXTBAN token, e.g. EXTBAN=$,ajrx
+*/
+export interface IExtban {
+  prefix: string;
+  types: string[];
+}
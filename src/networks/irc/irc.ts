@@ -2,14 +2,25 @@
 
 import { Network, INetwork, INetOptions, INetworkOptions } from '../base/network';
 import { IrcChannel, IIrcChannelOptions } from './irc_channel';
-import { IrcServer, IIrcServerOptions } from './irc_server';
+import { IrcServer, IIrcServerOptions, ITlsOptions } from './irc_server';
 import { IrcUser, IIrcUserOptions } from './irc_user';
 import { IrcConnection } from './irc_connection';
+import { Capabilities } from './capabilities';
+import { CaseMapping } from './casemapping';
+import { Ctcp } from './ctcp';
+import { Monitor } from './monitor';
+import { Dcc } from './dcc/dcc';
 import { Timer } from '../../utilities/timer';
 import { AnyNet } from '../netfactory';
-import { ISasl } from './sasl/sasl';
+import { NickServ, INickServ } from './services/nickserv';
+import { ChanServ, IChanServ } from './services/chanserv';
+import { SASL, ISasl } from './sasl/sasl';
+import { UserDatabase } from './user_database';
+import { Split } from './split';
 import { Bot } from '../../bot';
 import { Ircd } from './ircd';
+import { Whois, IWhoisRecord } from './whois';
+import { Who } from './who';
 import * as _ from 'lodash';
 
 export class Irc extends Network implements IIRC {
@@ -21,23 +32,86 @@ export class Irc extends Network implements IIRC {
   public connection_attempts: number;
   public active_server: IrcServer = null;
   public ircd: Ircd;
+  public caps: Capabilities;
+  public ctcp: Ctcp;
+  public dcc: Dcc;
+  public who: Who;
+  public monitor: Monitor;
+  public whois_queries: Whois;
   public name: string;
   public nick: string;
   public alt_nick: string;
   public quit_message: string;
   public encoding: string;
   public reject_invalid_certs: boolean;
+  public cert: string;
+  public key: string;
+  public passphrase: string;
+  public ca: string | string[];
+  public fingerprint: string;
+
+  /**
+  * The sha256 fingerprint of our client certificate, for CertFP
+  */
+  public client_fingerprint: string = null;
+
+  /**
+  * Are we marked away? away_message is kept while reconnecting so it is set again
+  */
+  public away: boolean = false;
+  public away_message: string = null;
   public password: string;
   public user_name: string;
   public real_name: string;
   public modes: string[];
   public options: IIrcOptions;
   public sasl: ISasl;
+  public authenticator: SASL = null;
+  public nickserv: INickServ;
+  public nick_services: NickServ;
+  public nick_retry: number;
+  public chanserv: IChanServ;
+  public chan_services: ChanServ;
+  public owner: string;
+  public user_file: string;
+  public user_db: UserDatabase;
+  public auto_op: boolean;
+  public auto_voice: boolean;
+  public auto_kick: boolean;
+  public watch_list: string[];
+  public ison_interval: number;
   public use_ping_timer: boolean;
   public reg_listen: string;
   public ping_delay: number;
+  public auto_rejoin: boolean;
+  public rejoin_delay: number;
+  public who_delay: number;
+  public topic_history: number;
+  public whois_timeout: number;
+  public ctcp_replies: { [ command: string ]: string };
+  public ctcp_limit: number;
+  public ctcp_interval: number;
+  public ctcp_timeout: number;
+  public dcc_directory: string;
+  public dcc_max_size: number;
+  public dcc_allowed: string[];
+  public dcc_auto_accept: boolean;
+  public dcc_host: string;
+  public dcc_port: number;
+  public dcc_timeout: number;
+  public flood_protection: boolean;
+  public flood_burst: number;
+  public flood_interval: number;
+  public send_queue_max: number;
+  public send_queue_overflow: string;
+  public send_queue_ttl: number;
 
   private _index = 0;
+
+  /**
+  * The case mapping channels and status are keyed by
+  */
+  private keyed_by = 'rfc1459';
   private auto_disabled_timer: Timer;
   private auto_disable_interval = 180000;
   private auto_disable_times    = 0;
@@ -53,6 +127,19 @@ export class Irc extends Network implements IIRC {
 
     _.merge( this, _.omit( this.options, [ 'enable', 'servers', 'channels', 'name' ] ) );
 
+    this.ircd = new Ircd( this );
+    this.caps = new Capabilities( this );
+    this.ctcp = new Ctcp( this );
+    this.dcc  = new Dcc( this );
+    this.who  = new Who( this );
+    this.nick_services = new NickServ( this, this.nickserv );
+    this.chan_services = new ChanServ( this, this.chanserv );
+    this.monitor = new Monitor( this );
+    this.user_db = new UserDatabase( this, this.user_file );
+
+    this.monitor.watch( this.watch_list );
+    this.whois_queries = new Whois( this );
+
     _.each( this.options.servers, ( server: IIrcServerOptions ) => {
       this.addServer( server );
     });
@@ -61,10 +148,8 @@ export class Irc extends Network implements IIRC {
       this.addChannel( channel );
     });
 
-    this.ircd = new Ircd( this );
-
-
     this.setupListeners();
+    this.registerCapabilities();
   }
 
   /**
@@ -118,15 +203,13 @@ export class Irc extends Network implements IIRC {
   public addChannel( chan: IIrcChannelOptions, callback?: Function ): IrcChannel {
     let channel: IrcChannel;
 
-    if ( this.channel[ chan.name ] ) {
-      channel = this.channel[ chan.name ];
-
+    if ( channel = this.findChannel( chan.name ) ) {
       this.bot.emit( `channel_exists::${ this.name }`, this, channel );
     }
     else {
       channel = new IrcChannel( this, chan );
 
-      this.channel[ channel.name ] = channel;
+      this.channel[ this.normalize( channel.name ) ] = channel;
       this.channels.push( channel );
     }
 
@@ -146,22 +229,135 @@ export class Irc extends Network implements IIRC {
     var instance = name instanceof IrcChannel;
 
     return !( !_.find( this.channels, ( channel: IrcChannel )=> {
-      return name === ( instance ? channel : channel.name );
+      return instance ? name === channel : this.equals( name, channel.name );
     }));
   }
 
+  /**
+  * Find a channel by name, according to the servers case mapping
+  * @param <string> name: The name of the channel you seek
+  * @return <IrcChannel>
+  */
+  public findChannel( name: string ): IrcChannel {
+    return this.channel[ this.normalize( name ) ];
+  }
+
+  /**
+  * Find a network user by nick, according to the servers case mapping
+  * @param <string> name: The nick of the user you seek
+  * @return <IrcUser>
+  */
+  public findUser( name: string ): IrcUser {
+    return <IrcUser> _.find( this.users, ( user ) => {
+      return this.equals( user.name, name );
+    });
+  }
+
   /**
   * Are we in this channel?
   * @param <string> channel: The channel we may or may not be in
   * @return <boolean>
   */
   public inChannel( channel: string ): boolean {
-    if ( this.channel[ channel ] )
-      return this.channel[ channel ].inChannel;
+    if ( this.findChannel( channel ) )
+      return this.findChannel( channel ).inChannel;
 
     return false;
   }
 
+  /**
+  * Lowercase a nick or channel name according to the servers case mapping
+  * @param <string> name: The nick or channel name
+  * @return <string>
+  */
+  public normalize( name: string ): string {
+    return CaseMapping.lower( name, this.ircd.casemapping );
+  }
+
+  /**
+  * Compare two nicks or channel names according to the servers case mapping
+  * @param <string> first: The first nick or channel name
+  * @param <string> second: The second nick or channel name
+  * @return <boolean>
+  */
+  public equals( first: string, second: string ): boolean {
+    return CaseMapping.equals( first, second, this.ircd.casemapping );
+  }
+
+  /**
+  * Ask the server who a user is
+  * @param <string> nick: The nick of the user
+  * @param <Function> callback: Optional node style callback
+  * @return <PromiseLike<IWhoisRecord>> Rejected if there is no such nick
+  */
+  public whois( nick: string, callback?: ( err: Error, record?: IWhoisRecord ) => void ): PromiseLike<IWhoisRecord> {
+    return this.whois_queries.query( 'WHOIS', nick, callback );
+  }
+
+  /**
+  * Ask the server who a nick belonged to
+  * @param <string> nick: The nick that was used
+  * @param <Function> callback: Optional node style callback
+  * @return <PromiseLike<IWhoisRecord>> Rejected if there was no such nick
+  */
+  public whowas( nick: string, callback?: ( err: Error, record?: IWhoisRecord ) => void ): PromiseLike<IWhoisRecord> {
+    return this.whois_queries.query( 'WHOWAS', nick, callback );
+  }
+
+  /**
+  * Be told when nicks come online or go offline, emitted as 'online' and 'offline'
+  * @param <string|string[]> nicks: The nick or nicks to watch
+  * @return <void>
+  */
+  public watch( nicks: string ): void;
+  public watch( nicks: string[] ): void;
+  public watch( nicks: any ): void {
+    this.monitor.watch( [].concat( nicks ) );
+  }
+
+  /**
+  * Stop watching nicks
+  * @param <string|string[]> nicks: The nick or nicks to stop watching
+  * @return <void>
+  */
+  public unwatch( nicks: string ): void;
+  public unwatch( nicks: string[] ): void;
+  public unwatch( nicks: any ): void {
+    this.monitor.unwatch( [].concat( nicks ) );
+  }
+
+  /**
+  * Mark ourselves away, confirmed by RPL_NOWAWAY and emitted as 'away'
+  * @param <string> message: The away message
+  * @return <void>
+  */
+  public setAway( message: string ): void {
+    this.away_message = message || 'away';
+
+    if ( this.connection && this.connection.registered )
+      this.send( `AWAY :${ this.away_message }` );
+  }
+
+  /**
+  * Mark ourselves back, confirmed by RPL_UNAWAY and emitted as 'away'
+  * @return <void>
+  */
+  public back(): void {
+    this.away_message = null;
+
+    if ( this.connection && this.connection.registered )
+      this.send( 'AWAY' );
+  }
+
+  /**
+  * Is the nick our own?
+  * @param <string> nick: The nick to check
+  * @return <boolean>
+  */
+  public isMe( nick: string ): boolean {
+    return !!this.connection && this.equals( nick, this.connection.nick );
+  }
+
   /**
   * Remove a server using a host
   * @param <String> host: The host to find and subsequently, remove
@@ -199,6 +395,33 @@ export class Irc extends Network implements IIRC {
     this.connection.send( message );
   }
 
+  /**
+  * Split text into parts that fit on lines starting with the given command
+  * @param <string> command: The start of each line, e.g. 'PRIVMSG #kwirk :'
+  * @param <string> text: The text to send, may contain newlines
+  * @param <number> reserve: Bytes to leave on each line, e.g. to wrap each part as a CTCP ACTION
+  * @return <string[]>
+  */
+  public split( command: string, text: string, reserve: number = 0 ): string[] {
+    return Split.message( text, this.lineLength( command ) - reserve, this.encoding );
+  }
+
+  /**
+  * The bytes left for text on a line starting with the given command, once
+  * the server has added our nick!ident@host prefix and the line ending
+  * @param <string> command: The start of the line, e.g. 'PRIVMSG #kwirk :'
+  * @return <number>
+  */
+  public lineLength( command: string ): number {
+    let tokens   = this.ircd.support.tokens,
+        nick     = this.connection && this.connection.nick || this.nick,
+        ident    = this.ident ? this.ident.length : +( tokens[ 'USERLEN' ] || 10 ),
+        hostname = this.hostname ? this.hostname.length : +( tokens[ 'HOSTLEN' ] || 63 ),
+        prefix   = Buffer.byteLength( `:${ nick }!`, this.encoding ) + ident + 1 + hostname + 1;
+
+    return 512 - 2 - prefix - Buffer.byteLength( command, this.encoding );
+  }
+
   /**
   * Jump to the next available server
   * @return <void>
@@ -281,7 +504,7 @@ export class Irc extends Network implements IIRC {
     let user: IrcUser;
 
     if ( this.userExists( opts.name ) ) {
-      user = <IrcUser> this.findUser( opts.name );
+      user = this.findUser( opts.name );
     }
     else {
       user = new IrcUser( this, opts );
@@ -292,6 +515,41 @@ export class Irc extends Network implements IIRC {
     return user;
   }
 
+  /**
+  * Remove a user from the network and every channel they are in
+  * @param <IrcUser> user: The user to remove
+  * @return <void>
+  */
+  public removeUser( user: IrcUser ): void {
+    _.each( this.channel, ( channel: IrcChannel ) => {
+      channel.removeUser( user );
+    });
+
+    _.remove( this.users, ( person ) => {
+      return person === user;
+    });
+
+    user.dispose();
+  }
+
+  /**
+  * Rename a user in place, so every channel holding the user sees the change
+  * @param <IrcUser> user: The user to rename
+  * @param <string> nick: The new nick of the user
+  * @return <IrcUser>
+  */
+  public renameUser( user: IrcUser, nick: string ): IrcUser {
+    let existing = this.findUser( nick );
+
+    // a stale user already holds the new nick
+    if ( existing && existing !== user )
+      this.removeUser( existing );
+
+    user.name = nick;
+
+    return user;
+  }
+
   /**
   * Generate a nickname from the main or alternate nicks
   * @param <String> nick: the nick to potentially modify
@@ -402,6 +660,37 @@ export class Irc extends Network implements IIRC {
     this.auto_disabled_timer = null;
   }
 
+  /**
+  * Register the capabilities this network makes use of
+  * @return <void>
+  */
+  private registerCapabilities(): void {
+    let capabilities = [
+      'cap-notify',
+      'multi-prefix',
+      'userhost-in-names',
+      'message-tags',
+      'server-time',
+      'account-notify',
+      'extended-join',
+      'chghost',
+      'away-notify',
+      'echo-message'
+    ];
+
+    _.each( capabilities, ( name: string ) => {
+      this.caps.register( name );
+    });
+
+    if ( this.sasl ) {
+      this.authenticator = new SASL( this, this.sasl );
+
+      this.caps.register( 'sasl', {
+        enable: this.authenticator.start.bind( this.authenticator )
+      });
+    }
+  }
+
   /**
   * setup this networks listeners
   * @return <void>
@@ -409,6 +698,7 @@ export class Irc extends Network implements IIRC {
   */
   private setupListeners(): void {
     this.bot.on( 'registered::' + this.name , this.onRegistered.bind( this ) );
+    this.bot.on( 'isupport::' + this.name, this.onISupport.bind( this ) );
 
     this.bot.on( 'connect::'+ this.name, ( network: Irc, server: IrcServer ) => {
       this._connected = true;
@@ -426,9 +716,39 @@ export class Irc extends Network implements IIRC {
     this.auto_disable_interval = 180000;
 
     this.connection_attempts = this.options.connection_attempts;
-    // perform on registered events, but for now lets try to make the bot join a channel
-    _.each( _.keys( this.channel ), ( name )=> {
-      this.channel[ name ].join();
+
+    // a new connection is not away, set our away message again
+    this.away = false;
+
+    if ( this.away_message )
+      this.setAway( this.away_message );
+
+    // join once identified, so a cloak is applied first
+    this.nick_services.start( () => {
+      _.each( _.keys( this.channel ), ( name )=> {
+        this.channel[ name ].join();
+      });
+    });
+  }
+
+  /**
+  * Called when 'isupport' is emitted, the case mapping may have changed
+  * so channels, and the status held in them, are keyed again
+  * @return <void>
+  * @private
+  */
+  private onISupport(): void {
+    let channels = this.channel,
+        previous = this.keyed_by;
+
+    this.channel  = {};
+    this.keyed_by = this.ircd.casemapping;
+
+    _.each( channels, ( channel: IrcChannel ) => {
+      this.channel[ this.normalize( channel.name ) ] = channel;
+
+      if ( previous !== this.keyed_by )
+        channel.rekeyStatus( previous );
     });
   }
 
@@ -458,16 +778,55 @@ export class Irc extends Network implements IIRC {
       password: null,
       modes: [ 'i' ], // user modes, not channel modes
       owner: '',
+      user_file: null,
+      auto_op: true,
+      auto_voice: true,
+      auto_kick: true,
       trigger: "!",
       quit_message: "KwirK, a sophisticated utility bot",
       reject_invalid_certs: false,
+      cert: null,
+      key: null,
+      passphrase: null,
+      ca: null,
+      fingerprint: null,
       sasl: null,
+      nickserv: null,
+      nick_retry: 60000,
+      chanserv: null,
+      watch_list: [],
+      ison_interval: 60000,
       servers: [],
       channels: [],
       name: null,
       use_ping_timer: false,
       ping_delay: 120000,
-      reg_listen: null
+      reg_listen: null,
+      auto_rejoin: true,
+      rejoin_delay: 5000,
+      who_delay: 2000,
+      topic_history: 10,
+      whois_timeout: 10000,
+      ctcp_replies: {
+        VERSION: `KwirK IRC Bot, node ${ process.version }`,
+        SOURCE: 'https://github.com/jfrazx/KwirK'
+      },
+      ctcp_limit: 3,
+      ctcp_interval: 10000,
+      ctcp_timeout: 10000,
+      dcc_directory: 'downloads',
+      dcc_max_size: 0,
+      dcc_allowed: [],
+      dcc_auto_accept: false,
+      dcc_host: null,
+      dcc_port: 0,
+      dcc_timeout: 60000,
+      flood_protection: true,
+      flood_burst: 5,
+      flood_interval: 2000,
+      send_queue_max: 100,
+      send_queue_overflow: 'drop',
+      send_queue_ttl: 0
     };
   }
 }
@@ -477,26 +836,133 @@ export interface IIRC extends IRCOptions, INetwork {
   options: IIrcOptions;
 
   inChannel( channel: string ): boolean;
+  findChannel( name: string ): IrcChannel;
+  normalize( name: string ): string;
+  equals( first: string, second: string ): boolean;
 }
 
 export interface IIrcOptions extends IRCOptions, INetOptions {}
 
-interface IRCOptions extends INetworkOptions {
+interface IRCOptions extends INetworkOptions, ITlsOptions {
   alt_nick?: string;
   channels?: IrcChannel[];
   encoding?: string;
   modes?: string[];
   nick?: string;
+
+  /**
+  * A hostmask, or services account, given owner flags in the user database
+  */
   owner?: string;
+
+  /**
+  * Where the user database is stored as JSON, kept in memory only when null
+  */
+  user_file?: string;
+
+  /**
+  * Op, voice and kick users on join, as their flags in the user database say
+  */
+  auto_op?: boolean;
+  auto_voice?: boolean;
+  auto_kick?: boolean;
   password?: string;
   quit_message?: string;
   real_name?: string;
   reject_invalid_certs?: boolean;
   sasl?: ISasl;
+  nickserv?: INickServ;
+
+  /**
+  * Try for our preferred nick every nick_retry milliseconds while another holds it, 0 to stop trying
+  */
+  nick_retry?: number;
+
+  /**
+  * Ask channel services for help joining channels, null to never ask
+  */
+  chanserv?: IChanServ;
+
+  /**
+  * Nicks to watch, see watch()
+  */
+  watch_list?: string[];
+
+  /**
+  * How often to poll nicks with ISON, when MONITOR is not available
+  */
+  ison_interval?: number;
   servers?: IrcServer[];
-  trigger?: string;
   user_name?: string;
   use_ping_timer?: boolean;
   ping_delay?: number;
   reg_listen?: string;
+  auto_rejoin?: boolean;
+  rejoin_delay?: number;
+  who_delay?: number;
+
+  /**
+  * How many earlier topics to keep for each channel
+  */
+  topic_history?: number;
+  whois_timeout?: number;
+
+  /**
+  * Replies to built in CTCP commands, e.g. { VERSION: 'KwirK' }
+  */
+  ctcp_replies?: { [ command: string ]: string };
+
+  /**
+  * Handle at most ctcp_limit CTCP requests every ctcp_interval milliseconds
+  */
+  ctcp_limit?: number;
+  ctcp_interval?: number;
+  ctcp_timeout?: number;
+
+  /**
+  * Where received files are saved
+  */
+  dcc_directory?: string;
+
+  /**
+  * The largest file accepted in bytes, 0 for no limit
+  */
+  dcc_max_size?: number;
+
+  /**
+  * The hostmasks or services accounts allowed to offer DCC sessions, '*' allows everyone
+  */
+  dcc_allowed?: string[];
+  dcc_auto_accept?: boolean;
+
+  /**
+  * The address and port offered for others to connect to, by default
+  * the address of the IRC connection and any free port
+  */
+  dcc_host?: string;
+  dcc_port?: number;
+  dcc_timeout?: number;
+
+  /**
+  * Send at most flood_burst lines at once, then one every flood_interval milliseconds
+  */
+  flood_protection?: boolean;
+  flood_burst?: number;
+  flood_interval?: number;
+
+  /**
+  * The most lines to hold back, 0 for no limit
+  */
+  send_queue_max?: number;
+
+  /**
+  * 'drop' the oldest lines of the busiest target when the queue is full,
+  * or 'collapse' repeated lines first
+  */
+  send_queue_overflow?: string;
+
+  /**
+  * Drop lines waiting longer than this many milliseconds, 0 to keep them
+  */
+  send_queue_ttl?: number;
 }
@@ -1,21 +1,66 @@
 
 import { Channel, IChannel, IChannelOptions } from '../base/channel';
 import { IrcUser, IIrcUserOptions } from './irc_user';
+import { Timer } from '../../utilities/timer';
+import { CaseMapping } from './casemapping';
+import { IModeChange } from './modes';
 import { Irc } from './irc';
 import * as _ from 'lodash';
 
 export class IrcChannel extends Channel implements IIrcChannel {
 
   public topic: string = null;
+
+  /**
+  * Who set the topic, and when in milliseconds, null when not known
+  */
+  public topic_setter: string = null;
+  public topic_time: number = null;
+
+  /**
+  * Earlier topics, most recent first, at most topic_history of them
+  */
+  public topics: ITopic[] = [];
   public users: IrcUser[] = [];
   public password: string;
   public key: string;
+  public limit: number = null;
+
+  /**
+  * The entries of each list mode ( e.g. 'b', 'e', 'I' ), filled by queryList
+  * and kept current from mode changes
+  */
+  public lists: { [ mode: string ]: IListEntry[] } = {};
+
+  /**
+  * When each of our timed bans is to be lifted, in milliseconds
+  */
+  public timed_bans: { [ mask: string ]: number } = {};
 
   /**
   * @todo change to object literal
   */
   public modes: string[];
 
+  /**
+  * The status modes ( e.g. 'o', 'v' ) each user holds in the channel,
+  * keyed by the normalized nick
+  */
+  public status: { [ nick: string ]: string[] } = {};
+
+  private rejoin_timer: Timer;
+  private unban_timer: Timer;
+
+  /**
+  * List entries being received, until the end of the list arrives
+  */
+  private listing: { [ mode: string ]: IListEntry[] } = {};
+
+  /**
+  * The roster being built from RPL_NAMREPLY, until RPL_ENDOFNAMES arrives
+  */
+  private roster: { users: IrcUser[], status: { [ nick: string ]: string[] } } = null;
+
   constructor( public network: Irc, options: IIrcChannelOptions ) {
     super( network, options );
 
@@ -23,6 +68,34 @@ export class IrcChannel extends Channel implements IIrcChannel {
 
 
     this.network.bot.on('disconnect::' + this.network.name, this.onDisconnect.bind( this ));
+    this.network.bot.on( 'names::' + this.network.name, ( network: Irc, channel: IrcChannel ) => {
+      if ( channel === this )
+        this.scheduleUnbans();
+    });
+  }
+
+  /**
+  * The ban list
+  * @return <IListEntry[]>
+  */
+  get bans(): IListEntry[] {
+    return this.lists[ 'b' ] || [];
+  }
+
+  /**
+  * The ban exception list, empty when EXCEPTS is not supported
+  * @return <IListEntry[]>
+  */
+  get excepts(): IListEntry[] {
+    return this.lists[ this.network.ircd.excepts ] || [];
+  }
+
+  /**
+  * The invite exception list, empty when INVEX is not supported
+  * @return <IListEntry[]>
+  */
+  get invex(): IListEntry[] {
+    return this.lists[ this.network.ircd.invex ] || [];
   }
 
   /**
@@ -31,7 +104,8 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public op( user: IrcUser ): void {
-    this.send( `MODE ${ this.name } +o ${ user.name }` );
+    if ( this.requireStatus( 'o' ) )
+      this.send( `MODE ${ this.name } +o ${ user.name }` );
   }
 
   /**
@@ -40,7 +114,8 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public deop( user: IrcUser ): void {
-    this.send( `MODE ${ this.name } -o ${ user.name }` );
+    if ( this.requireStatus( 'o' ) )
+      this.send( `MODE ${ this.name } -o ${ user.name }` );
   }
 
   /**
@@ -49,11 +124,8 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public voice( user: IrcUser ): void {
-    this.send( `MODE ${ this.name } +v ${ user.name }` );
-
-    // if ( this.network.botUser.opped( this.name )) {
-    //   return true;
-    // }
+    if ( this.requireStatus( 'h' ) )
+      this.send( `MODE ${ this.name } +v ${ user.name }` );
   }
   /**
   * Removes channel voice from user
@@ -61,7 +133,377 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public devoice( user: IrcUser ): void {
-    this.send( `MODE ${ this.name } -v ${ user.name }` );
+    if ( this.requireStatus( 'h' ) )
+      this.send( `MODE ${ this.name } -v ${ user.name }` );
+  }
+
+  /**
+  * Ban masks, lifting them after a duration if given
+  * @param <string|string[]> masks: The mask or masks, e.g. '*!*@example.com'
+  * @param <number> duration: Milliseconds until the ban is lifted, permanent when not given
+  * @return <void>
+  */
+  public ban( masks: string, duration?: number ): void;
+  public ban( masks: string[], duration?: number ): void;
+  public ban( masks: any, duration?: number ): void {
+    masks = [].concat( masks );
+
+    if ( !this.requireStatus( 'h' ) ) return;
+
+    this.changeList( true, 'b', masks );
+
+    if ( duration > 0 ) {
+      _.each( masks, ( mask: string ) => {
+        this.timed_bans[ mask ] = Date.now() + duration;
+      });
+
+      this.scheduleUnbans();
+    }
+  }
+
+  /**
+  * Lift bans
+  * @param <string|string[]> masks: The mask or masks
+  * @return <void>
+  */
+  public unban( masks: string ): void;
+  public unban( masks: string[] ): void;
+  public unban( masks: any ): void {
+    masks = [].concat( masks );
+
+    if ( !this.requireStatus( 'h' ) ) return;
+
+    _.each( masks, ( mask: string ) => {
+      delete this.timed_bans[ mask ];
+    });
+
+    this.changeList( false, 'b', masks );
+    this.scheduleUnbans();
+  }
+
+  /**
+  * Ban a user by host, or by nick when the host is not known, then kick them
+  * @param <string|IrcUser> user: The user or nick
+  * @param <string> reason: The kick reason
+  * @param <number> duration: Milliseconds until the ban is lifted, permanent when not given
+  * @return <void>
+  */
+  public kickban( user: IrcUser, reason?: string, duration?: number ): void;
+  public kickban( user: string, reason?: string, duration?: number ): void;
+  public kickban( user: any, reason?: string, duration?: number ): void {
+    let nick = user instanceof IrcUser ? user.name : user,
+        found: IrcUser = this.network.findUser( nick );
+
+    if ( !this.requireStatus( 'h' ) ) return;
+
+    this.ban( found && found.hostname ? found.banMask() : `${ nick }!*@*`, duration );
+    this.send( `KICK ${ this.name } ${ nick } :${ reason || nick }` );
+  }
+
+  /**
+  * Ask for the entries of a list mode, they arrive as RPL_BANLIST and the like
+  * @param <string> mode: The list mode, e.g. 'b'
+  * @return <void>
+  */
+  public queryList( mode: string = 'b' ): void {
+    this.send( `MODE ${ this.name } +${ mode }` );
+  }
+
+  /**
+  * Ask for the ban list and, where supported, the exception and invite exception lists
+  * @return <void>
+  */
+  public queryLists(): void {
+    _.each( _.compact( [ 'b', this.network.ircd.excepts, this.network.ircd.invex ] ), this.queryList.bind( this ) );
+  }
+
+  /**
+  * Buffer an entry of a list reply
+  * @param <string> mode: The list mode
+  * @param <string> mask: The mask
+  * @param <string> setter: Who set the entry, if sent
+  * @param <number> time: When the entry was set in milliseconds, if sent
+  * @return <void>
+  */
+  public addListEntry( mode: string, mask: string, setter: string = null, time: number = null ): void {
+    ( this.listing[ mode ] = this.listing[ mode ] || [] ).push( { mask: mask, setter: setter, time: time } );
+  }
+
+  /**
+  * Replace a list with the buffered entries
+  * @param <string> mode: The list mode
+  * @return <IListEntry[]> The complete list
+  */
+  public endList( mode: string ): IListEntry[] {
+    this.lists[ mode ] = this.listing[ mode ] || [];
+
+    delete this.listing[ mode ];
+
+    return this.lists[ mode ];
+  }
+
+  /**
+  * Does the user hold channel operator status, or higher?
+  * @param <string|IrcUser> user: The user or nick to check
+  * @return <boolean>
+  */
+  public isOp( user: IrcUser ): boolean;
+  public isOp( user: string ): boolean;
+  public isOp( user: any ): boolean {
+    return this.hasStatus( user, 'o' );
+  }
+
+  /**
+  * Does the user hold half operator status, or higher?
+  * @param <string|IrcUser> user: The user or nick to check
+  * @return <boolean>
+  */
+  public isHalfop( user: IrcUser ): boolean;
+  public isHalfop( user: string ): boolean;
+  public isHalfop( user: any ): boolean {
+    return this.hasStatus( user, 'h' );
+  }
+
+  /**
+  * Does the user hold voice, or higher?
+  * @param <string|IrcUser> user: The user or nick to check
+  * @return <boolean>
+  */
+  public isVoice( user: IrcUser ): boolean;
+  public isVoice( user: string ): boolean;
+  public isVoice( user: any ): boolean {
+    return this.hasStatus( user, 'v' );
+  }
+
+  /**
+  * Does the user hold the given status mode, or one ranked above it?
+  * If the server does not support the mode ( e.g. halfop ) the next
+  * mode ranked above it is required
+  * @param <string|IrcUser> user: The user or nick to check
+  * @param <string> mode: The status mode, e.g. 'o'
+  * @return <boolean>
+  */
+  public hasStatus( user: IrcUser, mode: string ): boolean;
+  public hasStatus( user: string, mode: string ): boolean;
+  public hasStatus( user: any, mode: string ): boolean {
+    let ranks = this.network.ircd.prefix.modes,
+        rank  = ranks.indexOf( mode ),
+        modes = this.status[ this.network.normalize( user instanceof IrcUser ? user.name : user ) ] || [];
+
+    if ( rank < 0 ) {
+      rank = ranks.indexOf( mode === 'h' ? 'o' : mode );
+
+      if ( rank < 0 ) return false;
+    }
+
+    return _.any( modes, ( held ) => {
+      let index = ranks.indexOf( held );
+
+      return index >= 0 && index <= rank;
+    });
+  }
+
+  /**
+  * Set or unset a status mode for the given nick
+  * @param <string> nick: The nick of the user
+  * @param <string> mode: The status mode, e.g. 'o'
+  * @param <boolean> adding: Set or unset the mode
+  * @return <void>
+  */
+  public setStatus( nick: string, mode: string, adding: boolean ): void {
+    let modes = this.status[ nick = this.network.normalize( nick ) ] || [];
+
+    if ( adding )
+      modes = _.union( modes, [ mode ] );
+    else
+      modes = _.without( modes, mode );
+
+    this.status[ nick ] = modes;
+  }
+
+  /**
+  * Move status held under an old nick to a new one
+  * @param <string> nick: The old nick
+  * @param <string> new_nick: The new nick
+  * @return <void>
+  */
+  public renameStatus( nick: string, new_nick: string ): void {
+    nick     = this.network.normalize( nick );
+    new_nick = this.network.normalize( new_nick );
+
+    if ( this.status[ nick ] && nick !== new_nick ) {
+      this.status[ new_nick ] = this.status[ nick ];
+      delete this.status[ nick ];
+    }
+  }
+
+  /**
+  * Key the status again once the case mapping changed, finding the nick
+  * behind each key among the channel users
+  * @param <string> previous: The case mapping the status is keyed by
+  * @return <void>
+  */
+  public rekeyStatus( previous: string ): void {
+    let nicks  = _.compact( _.pluck( this.users, 'name' ).concat( this.network.myNick() ) ),
+        status = this.status;
+
+    this.status = {};
+
+    _.each( status, ( modes: string[], key: string ) => {
+      let nick = _.find( nicks, ( name: string ) => CaseMapping.lower( name, previous ) === key ) || key;
+
+      this.status[ this.network.normalize( nick ) ] = modes;
+    });
+  }
+
+  /**
+  * Buffer the entries of a RPL_NAMREPLY
+  * Entries may carry several status symbols ( multi-prefix ) and
+  * the full hostmask ( userhost-in-names ), e.g. '@+nick!ident@host'
+  * @param <string[]> entries: The names sent by the server
+  * @return <void>
+  */
+  public addNames( entries: string[] ): void {
+    if ( !this.roster )
+      this.roster = { users: [], status: {} };
+
+    _.compact( entries ).forEach( ( entry ) => {
+      let modes: string[] = [],
+          match: RegExpExecArray,
+          user: IrcUser;
+
+      while ( entry && this.network.ircd.prefixMode( entry[ 0 ] ) ) {
+        modes.push( this.network.ircd.prefixMode( entry[ 0 ] ) );
+        entry = entry.slice( 1 );
+      }
+
+      if ( !( match = /^([^!@]+)(?:!([^@]*))?(?:@(.*))?$/.exec( entry ) ) )
+        return;
+
+      this.roster.status[ this.network.normalize( match[ 1 ] ) ] = modes;
+
+      // the bot is not tracked as a channel user
+      if ( this.network.isMe( match[ 1 ] ) )
+        return;
+
+      user = this.network.addUser( { name: match[ 1 ], ident: match[ 2 ], hostname: match[ 3 ] } );
+
+      if ( match[ 2 ] )
+        user.ident = match[ 2 ];
+
+      if ( match[ 3 ] )
+        user.hostname = match[ 3 ];
+
+      if ( this.roster.users.indexOf( user ) < 0 )
+        this.roster.users.push( user );
+    });
+  }
+
+  /**
+  * Replace the channel users and their status with the buffered roster,
+  * forgetting users who are no longer in any channel
+  * @return <IrcUser[]> The complete list of users in the channel
+  */
+  public endNames(): IrcUser[] {
+    let roster = this.roster,
+        dropped: IrcUser[];
+
+    // no names were sent, e.g. for a channel we can not see into
+    if ( !roster )
+      return this.users;
+
+    dropped = _.difference( this.users, roster.users );
+
+    this.roster = null;
+    this.users  = roster.users;
+    this.status = roster.status;
+
+    _.each( dropped, ( user: IrcUser ) => {
+      if ( !_.any( this.network.channel, ( channel: IrcChannel ) => channel.userInChannel( user ) ) )
+        this.network.removeUser( user );
+    });
+
+    return this.users;
+  }
+
+  /**
+  * Apply parsed mode changes to the channel
+  * @param <IModeChange[]> changes: The mode changes
+  * @param <string> setter: Who changed the modes
+  * @return <void>
+  */
+  public applyModes( changes: IModeChange[], setter: string = null ): void {
+    changes.forEach( ( change ) => {
+      switch ( change.type ) {
+        case 'prefix':
+          this.setStatus( change.param, change.mode, change.adding );
+
+          // we may now be able to lift timed bans
+          if ( change.adding && this.network.isMe( change.param ) )
+            this.scheduleUnbans();
+
+          break;
+        case 'list':
+          // a list query has no mask
+          if ( change.param !== null )
+            this.changeEntry( change, setter );
+
+          break;
+        default:
+          if ( change.mode === 'k' )
+            this.password = change.adding ? change.param : null;
+
+          else if ( change.mode === 'l' )
+            this.limit = change.adding ? parseInt( change.param, 10 ) : null;
+
+          if ( change.adding )
+            this.modes = _.union( this.modes, [ change.mode ] );
+          else
+            this.modes = _.without( this.modes, change.mode );
+      }
+    });
+  }
+
+  /**
+  * Record the topic, keeping the one it replaces in the topic history
+  * @param <string> topic: The topic, null when unset
+  * @param <string> setter: Who set the topic
+  * @param <number> time: When the topic was set, in milliseconds
+  * @return <boolean> Did the topic change?
+  */
+  public updateTopic( topic: string, setter: string = null, time: number = null ): boolean {
+    let changed = topic !== this.topic;
+
+    if ( changed && this.topic ) {
+      this.topics.unshift( { topic: this.topic, setter: this.topic_setter, time: this.topic_time } );
+      this.topics = this.topics.slice( 0, Math.max( this.network.topic_history, 0 ) );
+    }
+
+    this.topic        = topic || null;
+    this.topic_setter = setter;
+    this.topic_time   = time;
+
+    return changed;
+  }
+
+  /**
+  * Change the topic, on one line cut to the TOPICLEN the server allows
+  * @param <string> topic: The new topic, an empty topic unsets it
+  * @return <void>
+  */
+  public setTopic( topic: string ): void {
+    let command = `TOPIC ${ this.name } :`,
+        reserve = Math.max( this.network.lineLength( command ) - this.network.ircd.topiclen, 0 );
+
+    // keep whole characters, a topic is measured in bytes
+    topic = this.network.split( command, ( topic || '' ).replace( /[\r\n]+/g, ' ' ), reserve )[ 0 ] || '';
+
+    // setting the same topic again is a no-op, and stops mirrored topics echoing
+    if ( ( topic || null ) === this.topic ) return;
+
+    if ( _.contains( this.modes, 't' ) && !this.requireStatus( 'h' ) ) return;
+
+    this.send( command + topic );
   }
 
   /**
@@ -73,6 +515,45 @@ export class IrcChannel extends Channel implements IIrcChannel {
     this.send( _.compact( [ "JOIN", this.name, ( key || this.password ) ] ).join( ' ' ), true );
   }
 
+  /**
+  * Have the bot rejoin the channel after a delay, e.g. after being kicked
+  * @param <number> delay: The time to wait in milliseconds
+  * @return <void>
+  */
+  public rejoin( delay: number = this.network.rejoin_delay ): void {
+    if ( this.rejoin_timer ) {
+      this.rejoin_timer.interval = delay;
+      this.rejoin_timer.restart();
+
+      return;
+    }
+
+    this.rejoin_timer = this.network.Timer(
+      {
+        autoStart: true,
+        infinite: false,
+        interval: delay,
+        reference: 'rejoin::' + this.network.name + '::' + this.name,
+        stopOn: 'disconnect::' + this.network.name
+      },
+      ( done: Function ) => {
+        if ( !this.inChannel )
+          this.join();
+
+        done();
+      }
+    );
+  }
+
+  /**
+  * Forget a pending rejoin, e.g. when joining straight away
+  * @return <void>
+  */
+  public cancelRejoin(): void {
+    if ( this.rejoin_timer )
+      this.rejoin_timer.stop();
+  }
+
   /**
   * Perform an action in the channel
   * @param <string> message: The action to perform
@@ -80,7 +561,11 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public action( message: string, force?: boolean ): void {
-    this.say( `\u0001ACTION ${ message }\u0001`, force );
+    let command = `PRIVMSG ${ this.name } :`;
+
+    _.each( this.network.split( command, message, 9 ), ( part: string ) => {
+      this.send( `${ command }\u0001ACTION ${ part }\u0001`, force );
+    });
   }
 
   /**
@@ -90,7 +575,11 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public notice( message: string, force?: boolean ): void {
-    this.send( `NOTICE ${ this.name } :${ message }`, force );
+    let command = `NOTICE ${ this.name } :`;
+
+    _.each( this.network.split( command, message ), ( part: string ) => {
+      this.send( command + part, force );
+    });
   }
 
   /**
@@ -100,7 +589,11 @@ export class IrcChannel extends Channel implements IIrcChannel {
   * @return <void>
   */
   public say( message: string, force?: boolean ): void {
-    this.send( `PRIVMSG ${ this.name } :${ message }`, force );
+    let command = `PRIVMSG ${ this.name } :`;
+
+    _.each( this.network.split( command, message ), ( part: string ) => {
+      this.send( command + part, force );
+    });
   }
 
   /**
@@ -211,18 +704,155 @@ export class IrcChannel extends Channel implements IIrcChannel {
   }
 
 
+  public removeUser( nick: IrcUser ): void;
+  public removeUser( nick: string ): void;
+  public removeUser( nick: any ): void {
+    let instance = nick instanceof IrcUser;
+
+    _.remove( this.users, ( user ) => {
+      return instance ? user == nick : this.network.equals( user.name, nick );
+    });
+
+    delete this.status[ this.network.normalize( instance ? nick.name : nick ) ];
+  }
+
   public userInChannel( user: string ): boolean;
   public userInChannel( user: IrcUser ): boolean;
   public userInChannel( user: any ): boolean {
     let instance: boolean = user instanceof IrcUser;
 
     return !!_.find( this.users, ( person ) => {
-      return instance ? person == user : user.name == person;
+      return instance ? person == user : this.network.equals( person.name, user );
+    });
+  }
+
+  /**
+  * Check that the bot holds the status needed to change modes
+  * @param <string> mode: The status mode required, e.g. 'o'
+  * @return <boolean>
+  */
+  private requireStatus( mode: string ): boolean {
+    if ( this.hasStatus( this.network.myNick(), mode ) )
+      return true;
+
+    this.network.bot.Logger.warn( `insufficient status to change modes in ${ this.name } on ${ this.network.name }` );
+
+    return false;
+  }
+
+  /**
+  * Add or remove a list entry from a mode change
+  * @param <IModeChange> change: The list mode change
+  * @param <string> setter: Who made the change
+  * @return <void>
+  * @private
+  */
+  private changeEntry( change: IModeChange, setter: string ): void {
+    let list = this.lists[ change.mode ] = _.reject( this.lists[ change.mode ], ( entry: IListEntry ) => {
+      return entry.mask === change.param;
     });
+
+    if ( change.adding )
+      list.push( { mask: change.param, setter: setter, time: Date.now() } );
+
+    else if ( change.mode === 'b' && this.timed_bans[ change.param ] ) {
+      delete this.timed_bans[ change.param ];
+      this.scheduleUnbans();
+    }
+  }
+
+  /**
+  * Set or unset a list mode on masks, as many per line as MODES allows
+  * @param <boolean> adding: Set or unset the mode
+  * @param <string> mode: The list mode, e.g. 'b'
+  * @param <string[]> masks: The masks
+  * @return <void>
+  * @private
+  */
+  private changeList( adding: boolean, mode: string, masks: string[] ): void {
+    let command = `MODE ${ this.name } `,
+        room = this.network.lineLength( command ),
+        max = Math.max( this.network.ircd.modes, 1 ),
+        batch: string[] = [],
+        length = 1;
+
+    let flush = () => {
+      if ( batch.length )
+        this.send( `${ command }${ adding ? '+' : '-' }${ _.repeat( mode, batch.length ) } ${ batch.join( ' ' ) }` );
+
+      batch = [];
+      length = 1;
+    };
+
+    _.each( _.uniq( masks ), ( mask: string ) => {
+      if ( batch.length >= max || length + ( batch.length + 1 ) + Buffer.byteLength( mask, this.network.encoding ) + 1 > room )
+        flush();
+
+      batch.push( mask );
+      length += Buffer.byteLength( mask, this.network.encoding ) + 1;
+    });
+
+    flush();
+  }
+
+  /**
+  * Wait for the next timed ban to expire, while we are able to lift it
+  * @return <void>
+  * @private
+  */
+  private scheduleUnbans(): void {
+    let expiries = _.values( this.timed_bans ),
+        delay: number;
+
+    if ( !expiries.length || !this.inChannel || !this.hasStatus( this.network.myNick(), 'h' ) ) {
+      if ( this.unban_timer )
+        this.unban_timer.stop();
+
+      return;
+    }
+
+    // setInterval cannot wait longer than 2^31 - 1 milliseconds
+    delay = Math.min( Math.max( Math.ceil( _.min( expiries ) - Date.now() ), 0 ), 2147483647 );
+
+    if ( !this.unban_timer ) {
+      this.unban_timer = this.network.Timer(
+        {
+          infinite: false,
+          interval: delay,
+          reference: 'unban::' + this.network.name + '::' + this.name,
+          stopOn: 'disconnect::' + this.network.name
+        },
+        ( done: Function ) => {
+          done();
+          this.liftBans();
+        }
+      );
+    }
+
+    this.unban_timer.interval = delay;
+    this.unban_timer.restart();
+  }
+
+  /**
+  * Lift the timed bans that have expired
+  * @return <void>
+  * @private
+  */
+  private liftBans(): void {
+    let now = Date.now(),
+        expired = _.filter( _.keys( this.timed_bans ), ( mask: string ) => this.timed_bans[ mask ] <= now );
+
+    if ( expired.length )
+      this.unban( expired );
+    else
+      this.scheduleUnbans();
   }
 
   private onDisconnect(): void {
     this._in_channel = false;
+    this.status = {};
+    this.roster = null;
+    this.listing = {};
 
     this.dispose();
   }
@@ -246,6 +876,18 @@ interface IIrcChannel extends IIrcChannelOptions, IChannel {
 }
 
 
+export interface IListEntry {
+  mask: string;
+  setter: string;
+  time: number;
+}
+
+export interface ITopic {
+  topic: string;
+  setter: string;
+  time: number;
+}
+
 export interface IIrcChannelOptions extends IChannelOptions {
   modes?: string[];
   password?: string;
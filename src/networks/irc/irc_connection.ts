@@ -3,20 +3,28 @@ import { Connection, IConnection } from '../base/connection';
 import { Constants } from '../../constants/constants';
 import { Timer } from '../../utilities/timer';
 import * as Hook from '../../utilities/hook';
+import { Certificate } from './certificate';
 import { IrcServer } from './irc_server';
+import { SendQueue } from './send_queue';
 import { Handler } from './handler';
 import { Bot } from '../../bot';
 import { Socket } from 'net';
 import { Irc } from './irc';
 import * as tls  from 'tls';
+import * as fs from 'fs';
 import * as _ from 'lodash';
 
 export class IrcConnection extends Connection implements IIrcConnection {
 
   public reconnect_attempts = 0;
   public request_disconnect: boolean;
+  /**
+  * The capabilities waiting on a reply, and those the server acknowledged
+  */
   public capabilities: { requested: string[], enabled: string[] } = { requested: [], enabled: [] };
   public registered: boolean;
+  public user_modes: string[] = [];
+  public queue: SendQueue;
 
   // the actual nick is use
   public nick: string;
@@ -34,6 +42,10 @@ export class IrcConnection extends Connection implements IIrcConnection {
     this.ping_delay = options.ping_delay;
 
     this.handler = new Handler( this.network );
+    this.queue   = new SendQueue( this.network, ( line: string ) => {
+      if ( this.connected() && this.socket )
+        this.buffer.push( line + '\r\n' );
+    });
 
     this.setupListeners();
   }
@@ -52,6 +64,12 @@ export class IrcConnection extends Connection implements IIrcConnection {
 
     this.request_disconnect = false;
     this.registered = false;
+    this.user_modes = [];
+    this.capabilities = { requested: [], enabled: [] };
+
+    this.network.ircd.reset();
+    this.network.caps.reset();
+    this.queue.clear();
 
     this.handler.setRegistrationListener( this.network.reg_listen );
 
@@ -60,12 +78,21 @@ export class IrcConnection extends Connection implements IIrcConnection {
     socket_connect_event = 'connect';
 
     if ( this.server.ssl ){
+      let options: tls.ConnectionOptions;
 
-      this.socket = tls.connect( {
-        rejectUnauthorized: this.network.reject_invalid_certs,
-        host: this.server.host,
-        port: this.server.port
-      } );
+      try {
+        options = this.tlsOptions();
+      }
+      catch ( e ) {
+        this.network.bot.Logger.error( `unable to read TLS files for ${ this.server.host } on ${ this.network.name }`, e );
+        this.network.bot.emit( 'certificate_error::' + this.network.name, this.network, this.server, e );
+
+        // reconnecting will not help until the files are fixed
+        this.network.disable();
+        return;
+      }
+
+      this.socket = tls.connect( options );
 
       socket_connect_event = 'secureConnect';
     }
@@ -103,6 +130,9 @@ export class IrcConnection extends Connection implements IIrcConnection {
   }
 
   private connectionSetup(): void {
+    if ( this.server.ssl && !this.verifyFingerprint() )
+      return;
+
     this.pipeSetup();
 
     this._connected = true;
@@ -118,6 +148,84 @@ export class IrcConnection extends Connection implements IIrcConnection {
     this.network.bot.emit( 'connect::' + this.network.name, this.network, this.server );
   }
 
+  /**
+  * Build the TLS options, reading the certificate files of the server or network
+  * @return <tls.ConnectionOptions>
+  * @private
+  */
+  private tlsOptions(): tls.ConnectionOptions {
+    let cert       = this.server.cert || this.network.cert,
+        key        = this.server.key || this.network.key,
+        passphrase = this.server.passphrase || this.network.passphrase,
+        ca         = this.server.ca || this.network.ca,
+        der: Buffer,
+        options: tls.ConnectionOptions = {
+          // a pinned certificate is trusted on its own
+          rejectUnauthorized: this.fingerprint() ? false : this.network.reject_invalid_certs,
+          host: this.server.host,
+          port: this.server.port
+        };
+
+    this.network.client_fingerprint = null;
+
+    if ( cert ) {
+      options.cert = fs.readFileSync( cert );
+      options.key  = fs.readFileSync( key || cert );
+
+      if ( !( der = Certificate.decode( options.cert ) ) )
+        throw new Error( `no certificate found in ${ cert }` );
+
+      this.network.client_fingerprint = Certificate.fingerprint( der );
+    }
+
+    if ( passphrase )
+      options.passphrase = passphrase;
+
+    if ( ca )
+      options.ca = _.map( [].concat( ca ), ( path: string ) => fs.readFileSync( path ) );
+
+    return options;
+  }
+
+  /**
+  * Compare the server certificate with the pinned fingerprint
+  * @return <boolean> false if the certificate does not match
+  * @private
+  */
+  private verifyFingerprint(): boolean {
+    let pin = this.fingerprint(),
+        certificate: any,
+        actual: string;
+
+    if ( !pin )
+      return true;
+
+    certificate = ( <tls.TLSSocket>this.socket ).getPeerCertificate();
+
+    if ( certificate && Certificate.matches( pin, certificate.raw ) )
+      return true;
+
+    actual = certificate && certificate.raw ? Certificate.fingerprint( certificate.raw ) : null;
+
+    this.network.bot.Logger.error( `certificate for ${ this.server.host } on ${ this.network.name } does not match the pinned fingerprint` );
+    this.network.bot.emit( 'certificate_mismatch::' + this.network.name, this.network, this.server, Certificate.normalize( pin ), actual );
+
+    // do not reconnect to a server we can not trust
+    this.request_disconnect = true;
+    this.disposeSocket();
+
+    return false;
+  }
+
+  /**
+  * The pinned server certificate fingerprint
+  * @return <string>
+  * @private
+  */
+  private fingerprint(): string {
+    return this.server.fingerprint || this.network.fingerprint;
+  }
+
   private pipeSetup(): void {
     this.buffer.pipe( this.socket );
     this.buffer.on( 'pause', () => {
@@ -244,12 +352,17 @@ export class IrcConnection extends Connection implements IIrcConnection {
     this.network.clearTimers();
     this.buffer.unpipe( this.socket );
     this.disposeSocket();
+    this.queue.clear();
   }
 
-  // more on this later...
+  /**
+  * Send a line, paced by the send queue
+  * @param <string> data: The line to send
+  * @return <void>
+  */
   public send( data: string ): void {
     if ( this.connected() && this.socket )
-      this.buffer.push( data + '\r\n' );
+      this.queue.push( data );
   }
 
   /**
@@ -393,6 +506,24 @@ export class IrcConnection extends Connection implements IIrcConnection {
       done();
   }
 
+  /**
+  * Apply a user mode string, e.g. '+iw-x', to our own user modes
+  * @param <string> modes: The mode string
+  * @return <void>
+  */
+  public applyUserModes( modes: string ): void {
+    let adding = true;
+
+    ( modes || '' ).split( '' ).forEach( ( mode ) => {
+      if ( mode === '+' || mode === '-' )
+        adding = mode === '+';
+      else if ( adding )
+        this.user_modes = _.union( this.user_modes, [ mode ] );
+      else
+        this.user_modes = _.without( this.user_modes, mode );
+    });
+  }
+
   /**
   * Send a CAP LIST to the IRC server
   * @return <void>
@@ -471,8 +602,11 @@ export class IrcConnection extends Connection implements IIrcConnection {
         }
     }
 
+    let server_time = _.find( tags, { tag: 'time' } );
+
     let msg_obj = {
         tags:       tags,
+        timestamp:  server_time ? Date.parse( server_time.value ) || undefined : undefined,
         prefix:     message[ 2 ],
         nick:       message[ 3 ] || message[ 2 ],  // Nick will be in the prefix slot if a full user mask is not used
         ident:      message[ 4 ] || '',
@@ -15,6 +15,11 @@ export class IrcServer extends Server implements IIRCServer {
   public ssl: boolean;
   public password: string;
   public location: ITLD;
+  public cert: string;
+  public key: string;
+  public passphrase: string;
+  public ca: string | string[];
+  public fingerprint: string;
 
   private _connection_history: connection_history[] = [];
 
@@ -94,7 +99,12 @@ export class IrcServer extends Server implements IIRCServer {
       port: 6667,
       ssl: false,
       password: null,
-      location: null
+      location: null,
+      cert: null,
+      key: null,
+      passphrase: null,
+      ca: null,
+      fingerprint: null
     }
   }
 }
@@ -107,13 +117,39 @@ export interface IIrcServerOptions extends ServerOptions {
   enable?: boolean;
 }
 
-interface ServerOptions extends IServerOptions  {
+interface ServerOptions extends IServerOptions, ITlsOptions {
   host: string;
   ssl?: boolean;
   password?: string;
   location?: ITLD;
 }
 
+/**
+* TLS client certificate and server pinning options, shared by servers and networks
+*/
+export interface ITlsOptions {
+  /**
+  * Path to the client certificate ( PEM ), used for CertFP
+  */
+  cert?: string;
+
+  /**
+  * Path to the client private key ( PEM ), defaults to the certificate file
+  */
+  key?: string;
+  passphrase?: string;
+
+  /**
+  * Path, or paths, to the certificate authorities to trust
+  */
+  ca?: string | string[];
+
+  /**
+  * The pinned sha1, sha256 or sha512 fingerprint of the server certificate
+  */
+  fingerprint?: string;
+}
+
 interface connection_history  {
   connected: number;
   disconnected: number;
@@ -1,30 +1,115 @@
 
 import { User, IUserOptions, IUser } from '../base/user';
+import { DccTransfer } from './dcc/dcc_transfer';
+import { ICtcpReply } from './ctcp';
+import { DccChat } from './dcc/dcc_chat';
+import { Hostmask } from './hostmask';
 import { Irc } from './irc';
+import * as _ from 'lodash';
 
 export class IrcUser extends User implements IIrcUser {
 
   public ident: string;
   public hostname: string;
+  public realname: string;
+  public server: string;
 
-  constructor( network: Irc, options?: IIrcUserOptions ) {
+  /**
+  * The services account the user is logged in to, null if not logged in
+  */
+  public account: string;
+  public away: boolean;
+
+  /**
+  * The away message, null when back or not yet known
+  */
+  public away_message: string;
+  public oper: boolean;
+
+  constructor( public network: Irc, options?: IIrcUserOptions ) {
     super( network, options );
 
+    // IRC nicks may contain characters such as []\`^{}|
+    this.name = options.name;
+
     this.ident = options.ident || '';
     this.hostname = options.hostname || '';
+    this.realname = options.realname || null;
+    this.server = options.server || null;
+    this.account = options.account || null;
+    this.away = !!options.away;
+    this.away_message = options.away_message || null;
+    this.oper = !!options.oper;
   }
 
   public dispose(): void {
 
   }
 
+  /**
+  * The users mask, '*' for parts not yet known
+  * @return <string> e.g. 'nick!ident@host'
+  */
+  public mask(): string {
+    return Hostmask.format( { nick: this.name, ident: this.ident, host: this.hostname } );
+  }
+
+  /**
+  * Build a mask to ban the user with
+  * @param <string> style: 'host', 'domain', 'ident', 'user', 'nick' or 'full'
+  * @return <string> e.g. '*!*@host'
+  */
+  public banMask( style: string = 'host' ): string {
+    return Hostmask.ban( { nick: this.name, ident: this.ident, host: this.hostname }, style );
+  }
+
+  /**
+  * Does the mask, or extended ban, match the user?
+  * @param <string> mask: e.g. '*!*@*.example.com' or '$a:account'
+  * @return <boolean>
+  */
+  public matches( mask: string ): boolean {
+    let target = {
+      nick: this.name,
+      ident: this.ident,
+      host: this.hostname,
+      account: this.account,
+      realname: this.realname
+    };
+
+    return Hostmask.matches( mask, target, this.network.ircd.casemapping, this.network.ircd.extban );
+  }
+
+  /**
+  * Mark the user away
+  * @param <string> message: The away message
+  * @return <void>
+  */
+  public setAway( message: string ): void {
+    this.away = true;
+    this.away_message = message;
+  }
+
+  /**
+  * Mark the user back
+  * @return <void>
+  */
+  public setBack(): void {
+    this.away = false;
+    this.away_message = null;
+  }
+
   /**
   * Perform an action in the user
   * @param <string> message: The action to perform
   * @return <void>
   */
   public action( message: string ): void {
-    this.say( `\u0001ACTION ${ message }\u0001` );
+    let command = `PRIVMSG ${ this.name } :`;
+
+    _.each( this.network.split( command, message, 9 ), ( part: string ) => {
+      this.send( `${ command }\u0001ACTION ${ part }\u0001` );
+    });
   }
 
   /**
@@ -33,7 +118,11 @@ export class IrcUser extends User implements IIrcUser {
   * @return <void>
   */
   public say( message: string ): void {
-    this.send( `PRIVMSG ${ this.name } :${ message }` );
+    let command = `PRIVMSG ${ this.name } :`;
+
+    _.each( this.network.split( command, message ), ( part: string ) => {
+      this.send( command + part );
+    });
   }
 
   /**
@@ -42,7 +131,40 @@ export class IrcUser extends User implements IIrcUser {
   * @return <void>
   */
   public notice( message: string ): void {
-    this.send( `NOTICE ${ this.name } :${ message }` );
+    let command = `NOTICE ${ this.name } :`;
+
+    _.each( this.network.split( command, message ), ( part: string ) => {
+      this.send( command + part );
+    });
+  }
+
+  /**
+  * Send a CTCP request to the user
+  * @param <string> command: The CTCP command, e.g. 'VERSION'
+  * @param <string> args: Optional arguments, PING defaults to the current time
+  * @return <PromiseLike<ICtcpReply>> Resolved with the reply and its latency
+  */
+  public ctcp( command: string, args?: string ): PromiseLike<ICtcpReply> {
+    return this.network.ctcp.query( this.name, command, args );
+  }
+
+  /**
+  * Offer the user a DCC chat session
+  * @param <boolean> passive: Ask the user to listen instead
+  * @return <DccChat>
+  */
+  public chat( passive?: boolean ): DccChat {
+    return this.network.dcc.chat( this.name, passive );
+  }
+
+  /**
+  * Offer the user a file over DCC
+  * @param <string> file: The path of the file to send
+  * @param <boolean> passive: Ask the user to listen instead
+  * @return <DccTransfer>
+  */
+  public sendFile( file: string, passive?: boolean ): DccTransfer {
+    return this.network.dcc.send( this.name, file, passive );
   }
 
   /**
@@ -62,4 +184,10 @@ interface IIrcUser extends IIrcUserOptions, IUser {
 export interface IIrcUserOptions extends IUserOptions {
   ident?: string;
   hostname?: string;
+  realname?: string;
+  server?: string;
+  account?: string;
+  away?: boolean;
+  away_message?: string;
+  oper?: boolean;
 }
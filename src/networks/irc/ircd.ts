@@ -1,5 +1,8 @@
 
+import { IChanModes, IPrefix } from './modes';
+import { IExtban } from './hostmask';
 import { Irc } from './irc';
+import * as _ from 'lodash';
 
 /**
 * This class is intended for the storage of IRCD registration information
@@ -7,16 +10,361 @@ import { Irc } from './irc';
 * more appropriately to different IRCD event interpretations
 */
 
-/**
-* @todo everything
-*/
-
 export class Ircd {
 
   public motd: string[];
 
+  /**
+  * The parsed RPL_ISUPPORT ( 005 ) tokens
+  */
+  public support: IIsupport;
 
   constructor( public network: Irc ) {
+    this.reset();
+  }
+
+  /**
+  * Return to RFC1459 defaults, until the server tells us otherwise
+  * @return <void>
+  */
+  public reset(): void {
+    this.motd = [];
+    this.support = this.defaults();
+  }
+
+  /**
+  * Read RPL_ISUPPORT tokens
+  * @param <string[]> tokens: The tokens, e.g. [ 'PREFIX=(ov)@+', 'CHANMODES=b,k,l,imnpst' ]
+  * @return <void>
+  */
+  public isupport( tokens: string[] ): void {
+    tokens.forEach( ( token ) => {
+      let negate = token[ 0 ] === '-',
+          index: number,
+          name: string,
+          value: string;
+
+      if ( negate )
+        token = token.slice( 1 );
+
+      index = token.indexOf( '=' );
+      name  = ( index >= 0 ? token.slice( 0, index ) : token ).toUpperCase();
+      value = negate ? null : ( index >= 0 ? this.decode( token.slice( index + 1 ) ) : '' );
+
+      if ( negate )
+        delete this.support.tokens[ name ];
+      else
+        this.support.tokens[ name ] = value;
+
+      this.token( name, value );
+    });
+
+    this.network.bot.emit( 'isupport::' + this.network.name, this.network, this.support );
+  }
+
+  get casemapping(): string {
+    return this.support.casemapping;
+  }
+
+  get chanmodes(): IChanModes {
+    return this.support.chanmodes;
+  }
+
+  get chantypes(): string[] {
+    return this.support.chantypes;
+  }
+
+  get modes(): number {
+    return this.support.modes;
+  }
+
+  /**
+  * The ban exception mode, null when EXCEPTS is not supported
+  * @return <string>
+  */
+  get excepts(): string {
+    return this.support.excepts;
+  }
+
+  /**
+  * The invite exception mode, null when INVEX is not supported
+  * @return <string>
+  */
+  get invex(): string {
+    return this.support.invex;
+  }
+
+  get extban(): IExtban {
+    return this.support.extban;
+  }
+
+  get monitor(): number {
+    return this.support.monitor;
+  }
+
+  get network_name(): string {
+    return this.support.network;
+  }
+
+  get nicklen(): number {
+    return this.support.nicklen;
+  }
+
+  get prefix(): IPrefix {
+    return this.support.prefix;
+  }
 
+  get topiclen(): number {
+    return this.support.topiclen;
   }
+
+  get whox(): boolean {
+    return this.support.whox;
+  }
+
+  /**
+  * Is the given name a channel, according to CHANTYPES?
+  * @param <string> name: The target name
+  * @return <boolean>
+  */
+  public isChannel( name: string ): boolean {
+    return !!name && this.support.chantypes.indexOf( name[ 0 ] ) >= 0;
+  }
+
+  /**
+  * Is the token advertised by the server?
+  * @param <string> name: The token name, e.g. 'EXCEPTS'
+  * @return <boolean>
+  */
+  public supports( name: string ): boolean {
+    return this.support.tokens[ name.toUpperCase() ] !== undefined;
+  }
+
+  /**
+  * The maximum number of targets a command accepts, according to TARGMAX
+  * @param <string> command: The command, e.g. 'PRIVMSG'
+  * @return <number> Infinity when unlimited, 1 when not advertised
+  */
+  public targets( command: string ): number {
+    let max = this.support.targmax[ command.toUpperCase() ];
+
+    return max === undefined ? 1 : max;
+  }
+
+  /**
+  * Find the status symbol for a status mode, e.g. 'o' => '@'
+  * @param <string> mode: The status mode
+  * @return <string>
+  */
+  public prefixSymbol( mode: string ): string {
+    return this.support.prefix.symbols[ this.support.prefix.modes.indexOf( mode ) ];
+  }
+
+  /**
+  * Find the status mode for a status symbol, e.g. '@' => 'o'
+  * @param <string> symbol: The status symbol
+  * @return <string>
+  */
+  public prefixMode( symbol: string ): string {
+    return this.support.prefix.modes[ this.support.prefix.symbols.indexOf( symbol ) ];
+  }
+
+  /**
+  * Apply a single token to the parsed structure
+  * @param <string> name: The token name
+  * @param <string> value: The token value, null if the token was negated
+  * @return <void>
+  * @private
+  */
+  private token( name: string, value: string ): void {
+    let defaults = this.defaults(),
+        match: RegExpExecArray;
+
+    switch ( name ) {
+      case 'NETWORK':
+        this.support.network = value || defaults.network;
+
+        break;
+      case 'CASEMAPPING':
+        this.support.casemapping = value ? value.toLowerCase() : defaults.casemapping;
+
+        break;
+      case 'CHANTYPES':
+        this.support.chantypes = value !== null ? value.split( '' ) : defaults.chantypes;
+
+        break;
+      case 'PREFIX':
+        if ( value !== null && ( match = /^\((.*)\)(.*)$/.exec( value ) ) ) {
+          this.support.prefix = {
+            modes: match[ 1 ].split( '' ),
+            symbols: match[ 2 ].split( '' )
+          };
+        }
+        else if ( value === '' ) {
+          this.support.prefix = { modes: [], symbols: [] };
+        }
+        else {
+          this.support.prefix = defaults.prefix;
+        }
+
+        break;
+      case 'CHANMODES':
+        if ( value ) {
+          let classes = value.split( ',' );
+
+          this.support.chanmodes = {
+            list: ( classes[ 0 ] || '' ).split( '' ),
+            param: ( classes[ 1 ] || '' ).split( '' ),
+            setparam: ( classes[ 2 ] || '' ).split( '' ),
+            flag: ( classes[ 3 ] || '' ).split( '' )
+          };
+        }
+        else {
+          this.support.chanmodes = defaults.chanmodes;
+        }
+
+        break;
+      case 'MODES':
+        this.support.modes = this.number( value, defaults.modes );
+
+        break;
+      case 'NICKLEN':
+        this.support.nicklen = this.number( value, defaults.nicklen );
+
+        break;
+      case 'TOPICLEN':
+        this.support.topiclen = this.number( value, defaults.topiclen );
+
+        break;
+      case 'MONITOR':
+        this.support.monitor = this.number( value, defaults.monitor );
+
+        break;
+      case 'TARGMAX':
+        this.support.targmax = {};
+
+        _.each( ( value || '' ).split( ',' ), ( target: string ) => {
+          let [ command, max ] = target.split( ':' );
+
+          if ( command )
+            this.support.targmax[ command.toUpperCase() ] = this.number( max, Infinity );
+        });
+
+        break;
+      case 'WHOX':
+        this.support.whox = value !== null;
+
+        break;
+      case 'EXCEPTS':
+        this.support.excepts = value !== null ? ( value || 'e' ) : defaults.excepts;
+
+        break;
+      case 'INVEX':
+        this.support.invex = value !== null ? ( value || 'I' ) : defaults.invex;
+
+        break;
+      case 'EXTBAN':
+        if ( value !== null && value.indexOf( ',' ) >= 0 ) {
+          this.support.extban = {
+            prefix: value.split( ',' )[ 0 ],
+            types: value.split( ',' )[ 1 ].split( '' )
+          };
+        }
+        else
+          this.support.extban = defaults.extban;
+
+        break;
+    }
+  }
+
+  /**
+  * Convert a token value to a number
+  * @param <string> value: The token value
+  * @param <number> fallback: The value to use when negated ( null )
+  * @return <number> Infinity when the token has no value
+  * @private
+  */
+  private number( value: string, fallback: number ): number {
+    if ( value === null || value === undefined )
+      return fallback;
+
+    if ( value === '' )
+      return Infinity;
+
+    let num = parseInt( value, 10 );
+
+    return isNaN( num ) ? fallback : num;
+  }
+
+  /**
+  * Decode \xHH escapes found in token values
+  * @param <string> value: The escaped value
+  * @return <string>
+  * @private
+  */
+  private decode( value: string ): string {
+    return value.replace( /\\x([0-9a-fA-F]{2})/g, ( match: string, hex: string ) => {
+      return String.fromCharCode( parseInt( hex, 16 ) );
+    });
+  }
+
+  /**
+  * RFC1459 defaults
+  * @return <IIsupport>
+  * @private
+  */
+  private defaults(): IIsupport {
+    return {
+      network: null,
+      casemapping: 'rfc1459',
+      chantypes: [ '#', '&' ],
+      prefix: {
+        modes: [ 'o', 'v' ],
+        symbols: [ '@', '+' ]
+      },
+      chanmodes: {
+        list: [ 'b' ],
+        param: [ 'k' ],
+        setparam: [ 'l' ],
+        flag: [ 'i', 'm', 'n', 'p', 's', 't' ]
+      },
+      modes: 3,
+      nicklen: 9,
+      topiclen: Infinity,
+      targmax: {},
+      monitor: null,
+      whox: false,
+      excepts: null,
+      invex: null,
+      extban: null,
+      tokens: {}
+    };
+  }
+}
+
+export interface IIsupport {
+  network: string;
+  casemapping: string;
+  chantypes: string[];
+  prefix: IPrefix;
+  chanmodes: IChanModes;
+  modes: number;
+  nicklen: number;
+  topiclen: number;
+  targmax: { [ command: string ]: number };
+  /**
+  * The MONITOR list limit, null if MONITOR is not supported
+  */
+  monitor: number;
+  whox: boolean;
+  excepts: string;
+  invex: string;
+  /**
+  * The extended ban prefix and types, null if not supported
+  */
+  extban: IExtban;
+  /**
+  * All tokens as sent by the server
+  */
+  tokens: { [ token: string ]: string };
 }
@@ -0,0 +1,125 @@
+/**
+* Channel mode parsing driven by the servers CHANMODES and PREFIX tokens
+*
+* CHANMODES=A,B,C,D where
+*   A: list modes, always take a parameter ( e.g. b )
+*   B: modes that always take a parameter ( e.g. k )
+*   C: modes that take a parameter only when set ( e.g. l )
+*   D: flag modes, never take a parameter ( e.g. n )
+*
+* PREFIX=(ov)@+ modes always take a nick as parameter
+*/
+
+export module Modes {
+
+  /**
+  * Parse a mode string and its parameters into individual mode changes
+  * @param <string> modes: The mode string, e.g. '+ov-k'
+  * @param <string[]> params: The mode parameters, e.g. [ 'nick', 'nick', 'key' ]
+  * @param <IChanModes> chanmodes: The channel mode classes
+  * @param <IPrefix> prefix: The status modes and their symbols
+  * @return <IModeChange[]>
+  */
+  export function parse( modes: string, params: string[], chanmodes: IChanModes, prefix: IPrefix ): IModeChange[] {
+    let changes: IModeChange[] = [],
+        adding = true,
+        index = 0;
+
+    params = params || [];
+
+    ( modes || '' ).split( '' ).forEach( ( mode ) => {
+      let type: string,
+          param: string = null;
+
+      if ( mode === '+' || mode === '-' ) {
+        adding = mode === '+';
+        return;
+      }
+
+      type = classify( mode, chanmodes, prefix );
+
+      if ( takesParam( type, adding ) ) {
+        param = params[ index++ ];
+
+        // a list query ( MODE #channel +b ) has no parameter, nor does
+        // unsetting a key on some servers ( MODE #channel -k )
+        if ( param === undefined ) {
+          if ( type !== 'list' && ( type !== 'param' || adding ) ) return;
+          param = null;
+        }
+      }
+
+      changes.push( {
+        adding: adding,
+        mode: mode,
+        param: param,
+        type: type
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+  * Determine the class of a mode
+  * @param <string> mode: The mode character
+  * @param <IChanModes> chanmodes: The channel mode classes
+  * @param <IPrefix> prefix: The status modes and their symbols
+  * @return <string> 'prefix', 'list', 'param', 'setparam' or 'flag'
+  */
+  export function classify( mode: string, chanmodes: IChanModes, prefix: IPrefix ): string {
+    if ( prefix.modes.indexOf( mode ) >= 0 )
+      return 'prefix';
+
+    if ( chanmodes.list.indexOf( mode ) >= 0 )
+      return 'list';
+
+    if ( chanmodes.param.indexOf( mode ) >= 0 )
+      return 'param';
+
+    if ( chanmodes.setparam.indexOf( mode ) >= 0 )
+      return 'setparam';
+
+    return 'flag';
+  }
+
+  /**
+  * Does a mode of the given class consume a parameter?
+  * @param <string> type: The mode class
+  * @param <boolean> adding: Is the mode being set?
+  * @return <boolean>
+  */
+  export function takesParam( type: string, adding: boolean ): boolean {
+    switch ( type ) {
+      case 'prefix':
+      case 'list':
+      case 'param':
+        return true;
+
+      case 'setparam':
+        return adding;
+
+      default:
+        return false;
+    }
+  }
+}
+
+export interface IModeChange {
+  adding: boolean;
+  mode: string;
+  param: string;
+  type: string;
+}
+
+export interface IChanModes {
+  list: string[];
+  param: string[];
+  setparam: string[];
+  flag: string[];
+}
+
+export interface IPrefix {
+  modes: string[];
+  symbols: string[];
+}
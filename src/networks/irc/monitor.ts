@@ -0,0 +1,294 @@
+
+import { Timer } from '../../utilities/timer';
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* Track whether watched nicks are online
+*
+* MONITOR is used when the server advertises it, nicks that do not fit the
+* MONITOR limit, or every nick when it is not advertised, are polled with ISON
+*/
+
+export class Monitor {
+
+  /**
+  * The most characters of nicks sent in a single MONITOR or ISON line
+  */
+  public static LENGTH = 400;
+
+  private nicks: string[] = [];
+  private status: { [ nick: string ]: boolean } = {};
+
+  /**
+  * Watched nicks that are polled with ISON
+  */
+  private polled: string[] = [];
+
+  /**
+  * The nicks of each ISON sent, waiting on RPL_ISON
+  */
+  private pending: string[][] = [];
+
+  private timer: Timer;
+
+  constructor( public network: Irc ) {
+    this.network.bot.on( 'registered::' + this.network.name, this.start.bind( this ) );
+    this.network.bot.on( 'disconnect::' + this.network.name, this.stop.bind( this ) );
+  }
+
+  /**
+  * Watch nicks
+  * @param <string[]> nicks: The nicks to watch
+  * @return <void>
+  */
+  public watch( nicks: string[] ): void {
+    let added = _.filter( _.uniq( nicks, this.network.normalize.bind( this.network ) ), ( nick: string ) => {
+      return !this.watching( nick );
+    });
+
+    if ( !added.length ) return;
+
+    this.nicks = this.nicks.concat( added );
+
+    if ( this.registered() )
+      this.subscribe( added );
+  }
+
+  /**
+  * Stop watching nicks
+  * @param <string[]> nicks: The nicks to stop watching
+  * @return <void>
+  */
+  public unwatch( nicks: string[] ): void {
+    let removed = _.filter( this.nicks, ( watched: string ) => {
+          return _.any( nicks, ( nick: string ) => this.network.equals( watched, nick ) );
+        }),
+        monitored = _.difference( removed, this.polled );
+
+    if ( !removed.length ) return;
+
+    this.nicks  = _.difference( this.nicks, removed );
+    this.polled = _.difference( this.polled, removed );
+
+    _.each( removed, ( nick: string ) => {
+      delete this.status[ this.network.normalize( nick ) ];
+    });
+
+    if ( this.registered() && this.supported() )
+      this.send( 'MONITOR - ', monitored, ',' );
+
+    if ( !this.polled.length && this.timer )
+      this.timer.stop();
+  }
+
+  /**
+  * Is the nick watched?
+  * @param <string> nick: The nick
+  * @return <boolean>
+  */
+  public watching( nick: string ): boolean {
+    return _.any( this.nicks, ( watched: string ) => this.network.equals( watched, nick ) );
+  }
+
+  /**
+  * The watched nicks
+  * @return <string[]>
+  */
+  public watched(): string[] {
+    return this.nicks.slice();
+  }
+
+  /**
+  * Is a watched nick online? null when not yet known
+  * @param <string> nick: The nick
+  * @return <boolean>
+  */
+  public isOnline( nick: string ): boolean {
+    let status = this.status[ this.network.normalize( nick ) ];
+
+    return status === undefined ? null : status;
+  }
+
+  /**
+  * RPL_MONONLINE
+  * @param <string> targets: e.g. 'nick!ident@host,other!ident@host'
+  * @return <void>
+  */
+  public online( targets: string ): void {
+    _.each( this.split( targets ), ( target: string ) => {
+      this.update( target.split( '!' )[ 0 ], true );
+    });
+  }
+
+  /**
+  * RPL_MONOFFLINE
+  * @param <string> targets: e.g. 'nick,other'
+  * @return <void>
+  */
+  public offline( targets: string ): void {
+    _.each( this.split( targets ), ( target: string ) => {
+      this.update( target.split( '!' )[ 0 ], false );
+    });
+  }
+
+  /**
+  * RPL_MONLIST, nicks already on the server list, e.g. after MONITOR L
+  * @param <string> targets: e.g. 'nick,other'
+  * @return <void>
+  */
+  public listed( targets: string ): void {
+    _.each( this.split( targets ), ( nick: string ) => {
+      if ( !this.watching( nick ) )
+        this.nicks.push( nick );
+    });
+  }
+
+  /**
+  * ERR_MONLISTFULL, poll the nicks that did not fit
+  * @param <string> targets: e.g. 'nick,other'
+  * @return <void>
+  */
+  public full( targets: string ): void {
+    let nicks = _.filter( this.split( targets ), this.watching.bind( this ) );
+
+    this.network.bot.Logger.info( `MONITOR list full on ${ this.network.name }, polling ${ nicks.join( ', ' ) }` );
+
+    this.poll( nicks );
+  }
+
+  /**
+  * RPL_ISON
+  * @param <string> reply: The nicks online, space separated
+  * @return <void>
+  */
+  public ison( reply: string ): void {
+    let queried = this.pending.shift(),
+        online  = this.split( reply, ' ' );
+
+    _.each( queried, ( nick: string ) => {
+      this.update( nick, _.any( online, ( name: string ) => this.network.equals( name, nick ) ) );
+    });
+  }
+
+  /**
+  * Subscribe to every watched nick once registered
+  * @return <void>
+  * @private
+  */
+  private start(): void {
+    this.status  = {};
+    this.polled  = [];
+    this.pending = [];
+
+    this.subscribe( this.nicks );
+  }
+
+  private stop(): void {
+    this.pending = [];
+
+    if ( this.timer )
+      this.timer.stop();
+  }
+
+  /**
+  * MONITOR nicks up to the server limit, polling the rest
+  * @param <string[]> nicks: The nicks
+  * @return <void>
+  * @private
+  */
+  private subscribe( nicks: string[] ): void {
+    let room = this.supported() ? this.network.ircd.monitor - ( this.nicks.length - nicks.length - this.polled.length ) : 0,
+        monitored = nicks.slice( 0, Math.max( room, 0 ) );
+
+    this.send( 'MONITOR + ', monitored, ',' );
+    this.poll( nicks.slice( monitored.length ) );
+  }
+
+  /**
+  * Poll nicks with ISON every ison_interval milliseconds
+  * @param <string[]> nicks: The nicks to add to the poll
+  * @return <void>
+  * @private
+  */
+  private poll( nicks: string[] ): void {
+    if ( !nicks.length ) return;
+
+    this.polled = _.union( this.polled, nicks );
+
+    if ( !this.timer ) {
+      this.timer = this.network.Timer(
+        {
+          interval: this.network.ison_interval,
+          immediate: true,
+          reference: 'ison::' + this.network.name
+        },
+        ( done: Function ) => {
+          this.pending = [];
+          this.send( 'ISON ', this.polled, ' ' );
+          done();
+        }
+      );
+    }
+
+    this.timer.restart();
+  }
+
+  /**
+  * Send nicks in as many lines as needed
+  * @param <string> command: The start of each line, e.g. 'MONITOR + '
+  * @param <string[]> nicks: The nicks
+  * @param <string> separator: Between nicks
+  * @return <void>
+  * @private
+  */
+  private send( command: string, nicks: string[], separator: string ): void {
+    let line: string[] = [],
+        length = 0;
+
+    _.each( nicks, ( nick: string, index: number ) => {
+      line.push( nick );
+      length += nick.length + 1;
+
+      if ( length >= Monitor.LENGTH || index === nicks.length - 1 ) {
+        if ( command === 'ISON ' )
+          this.pending.push( line );
+
+        this.network.send( command + line.join( separator ) );
+
+        line = [];
+        length = 0;
+      }
+    });
+  }
+
+  /**
+  * Record the status of a nick, emitting 'online' or 'offline' when it changes
+  * @param <string> nick: The nick
+  * @param <boolean> online: Is the nick online?
+  * @return <void>
+  * @private
+  */
+  private update( nick: string, online: boolean ): void {
+    let key = this.network.normalize( nick );
+
+    if ( !this.watching( nick ) || this.status[ key ] === online )
+      return;
+
+    this.status[ key ] = online;
+
+    this.network.bot.emit( ( online ? 'online::' : 'offline::' ) + this.network.name, this.network, nick );
+  }
+
+  private registered(): boolean {
+    return !!this.network.connection && this.network.connection.registered;
+  }
+
+  private supported(): boolean {
+    return this.network.ircd.monitor !== null;
+  }
+
+  private split( targets: string, separator: string = ',' ): string[] {
+    return _.compact( ( targets || '' ).split( separator ) );
+  }
+}
@@ -0,0 +1,180 @@
+
+import * as crypto from 'crypto';
+
+/**
+* SASL mechanisms, each answers the server challenges of one exchange
+*/
+
+/**
+* RFC 4616, a single message holding the credentials
+*/
+export class Plain implements IMechanism {
+
+  public name = 'PLAIN';
+
+  constructor( private username: string, private password: string, private authzid: string = '' ) {
+
+  }
+
+  /**
+  * @param <Buffer> challenge: The decoded server challenge, empty to begin
+  * @return <Buffer> The response, null to abort
+  */
+  public respond( challenge: Buffer ): Buffer {
+    return new Buffer( [ this.authzid, this.username, this.password ].join( '\0' ) );
+  }
+}
+
+/**
+* RFC 4422, authenticate using the TLS client certificate
+*/
+export class External implements IMechanism {
+
+  public name = 'EXTERNAL';
+
+  constructor( private authzid: string = '' ) {
+
+  }
+
+  /**
+  * @param <Buffer> challenge: The decoded server challenge, empty to begin
+  * @return <Buffer> The authorization identity, usually empty
+  */
+  public respond( challenge: Buffer ): Buffer {
+    return new Buffer( this.authzid );
+  }
+}
+
+/**
+* RFC 7677, salted challenge response without sending the password
+*/
+export class ScramSha256 implements IMechanism {
+
+  public name = 'SCRAM-SHA-256';
+
+  private step = 0;
+  private client_first_bare: string;
+  private server_signature: Buffer;
+
+  /**
+  * @param <string> username: The account name
+  * @param <string> password: The account password
+  * @param <string> nonce: The client nonce, random unless given
+  */
+  constructor( private username: string, private password: string, private nonce?: string ) {
+    this.nonce = nonce || crypto.randomBytes( 18 ).toString( 'base64' );
+  }
+
+  /**
+  * @param <Buffer> challenge: The decoded server challenge, empty to begin
+  * @return <Buffer> The response, null to abort
+  */
+  public respond( challenge: Buffer ): Buffer {
+    switch ( this.step++ ) {
+      case 0:
+        return this.clientFirst();
+
+      case 1:
+        return this.clientFinal( challenge.toString() );
+
+      case 2:
+        return this.verify( challenge.toString() ) ? new Buffer( 0 ) : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+  * @return <Buffer> 'n,,n=user,r=nonce'
+  * @private
+  */
+  private clientFirst(): Buffer {
+    let username = this.username.replace( /=/g, '=3D' ).replace( /,/g, '=2C' );
+
+    this.client_first_bare = `n=${ username },r=${ this.nonce }`;
+
+    return new Buffer( 'n,,' + this.client_first_bare );
+  }
+
+  /**
+  * @param <string> server_first: 'r=nonce,s=salt,i=iterations'
+  * @return <Buffer> 'c=biws,r=nonce,p=proof', null if the server nonce is invalid
+  * @private
+  */
+  private clientFinal( server_first: string ): Buffer {
+    let attributes = this.attributes( server_first ),
+        iterations = parseInt( attributes[ 'i' ], 10 ),
+        salted: Buffer,
+        client_key: Buffer,
+        stored_key: Buffer,
+        without_proof: string,
+        auth_message: string,
+        signature: Buffer,
+        proof: Buffer;
+
+    if ( !attributes[ 'r' ] || attributes[ 'r' ].indexOf( this.nonce ) !== 0 || !attributes[ 's' ] || !iterations )
+      return null;
+
+    salted     = crypto.pbkdf2Sync( this.password, new Buffer( attributes[ 's' ], 'base64' ), iterations, 32, 'sha256' );
+    client_key = this.hmac( salted, 'Client Key' );
+    stored_key = crypto.createHash( 'sha256' ).update( client_key ).digest();
+
+    without_proof = `c=biws,r=${ attributes[ 'r' ] }`;
+    auth_message  = [ this.client_first_bare, server_first, without_proof ].join( ',' );
+
+    signature = this.hmac( stored_key, auth_message );
+    proof     = new Buffer( client_key.length );
+
+    for ( let i = 0; i < client_key.length; i++ )
+      proof[ i ] = client_key[ i ] ^ signature[ i ];
+
+    this.server_signature = this.hmac( this.hmac( salted, 'Server Key' ), auth_message );
+
+    return new Buffer( `${ without_proof },p=${ proof.toString( 'base64' ) }` );
+  }
+
+  /**
+  * @param <string> server_final: 'v=signature' or 'e=error'
+  * @return <boolean> Did the server prove it knows the password?
+  * @private
+  */
+  private verify( server_final: string ): boolean {
+    let attributes = this.attributes( server_final );
+
+    return !!attributes[ 'v' ] && attributes[ 'v' ] === this.server_signature.toString( 'base64' );
+  }
+
+  /**
+  * @param <Buffer> key: The HMAC key
+  * @param <string> data: The data to sign
+  * @return <Buffer>
+  * @private
+  */
+  private hmac( key: Buffer, data: string ): Buffer {
+    return crypto.createHmac( 'sha256', key ).update( data ).digest();
+  }
+
+  /**
+  * @param <string> message: e.g. 'r=nonce,s=salt,i=4096'
+  * @return <Object>
+  * @private
+  */
+  private attributes( message: string ): { [ name: string ]: string } {
+    let attributes: { [ name: string ]: string } = {};
+
+    message.split( ',' ).forEach( ( attribute ) => {
+      let index = attribute.indexOf( '=' );
+
+      if ( index > 0 )
+        attributes[ attribute.slice( 0, index ) ] = attribute.slice( index + 1 );
+    });
+
+    return attributes;
+  }
+}
+
+export interface IMechanism {
+  name: string;
+  respond( challenge: Buffer ): Buffer;
+}
@@ -1,10 +1,232 @@
-// TODO: everything
+
+import { IMechanism, Plain, External, ScramSha256 } from './mechanisms';
+import { Irc } from '../irc';
+import * as _ from 'lodash';
+
+/**
+* SASL authentication during capability negotiation
+*
+* Payloads are base64 encoded and sent in 400 byte chunks, a chunk of
+* exactly 400 bytes is followed by another, or by '+' when it was the last
+*/
+
 export class SASL {
 
+  public static CHUNK = 400;
+
+  /**
+  * The mechanism of the exchange in progress
+  */
+  public mechanism: IMechanism = null;
+
+  /**
+  * Did authentication succeed on this connection?
+  */
+  public authenticated: boolean = false;
+
+  private queue: string[] = [];
+  private received: string = '';
+  private done: Function = null;
+
+  constructor( public network: Irc, public options: ISasl ) {
+    _.defaults( this.options, this.defaults() );
+
+    this.network.bot.on( 'disconnect::' + this.network.name, () => {
+      this.mechanism = null;
+      this.done = null;
+    });
+  }
+
+  /**
+  * Begin authenticating, once the sasl capability is acknowledged
+  * @param <string> advertised: The mechanisms the server advertised, e.g. 'PLAIN,EXTERNAL'
+  * @param <Function> done: Called once authentication has finished
+  * @return <void>
+  */
+  public start( advertised: string, done: Function ): void {
+    let offered = _.compact( ( advertised || '' ).toUpperCase().split( ',' ) );
+
+    this.done = done;
+    this.authenticated = false;
+
+    this.queue = _.filter( _.invoke( this.options.mechanisms, 'toUpperCase' ), ( name: string ) => {
+      return !offered.length || _.contains( offered, name );
+    });
+
+    this.next();
+  }
+
+  /**
+  * Answer an AUTHENTICATE challenge
+  * @param <string> data: A base64 chunk, or '+' for an empty challenge
+  * @return <void>
+  */
+  public authenticate( data: string ): void {
+    let response: Buffer;
+
+    if ( !this.mechanism ) return;
+
+    if ( data !== '+' )
+      this.received += data;
+
+    // more of the challenge follows
+    if ( data.length === SASL.CHUNK )
+      return;
+
+    response = this.mechanism.respond( new Buffer( this.received, 'base64' ) );
+    this.received = '';
+
+    if ( response === null )
+      this.network.send( 'AUTHENTICATE *' );
+    else
+      this.respond( response );
+  }
+
+  /**
+  * Limit the remaining mechanisms to those the server supports ( RPL_SASLMECHS )
+  * @param <string> supported: e.g. 'PLAIN,EXTERNAL'
+  * @return <void>
+  */
+  public supported( supported: string ): void {
+    this.queue = _.intersection( this.queue, ( supported || '' ).toUpperCase().split( ',' ) );
+  }
+
+  /**
+  * RPL_SASLSUCCESS and RPL_SASLALREADYAUTH
+  * @return <void>
+  */
+  public success(): void {
+    if ( !this.done ) return;
+
+    this.authenticated = true;
+
+    this.network.bot.emit( 'sasl_success::' + this.network.name, this.network, this.mechanism && this.mechanism.name );
+
+    this.finish();
+  }
+
+  /**
+  * RPL_SASLFAILED, RPL_SASLERROR and RPL_SASLABORT, apply the failure policy
+  * @param <string> reason: The reason sent by the server
+  * @return <void>
+  */
+  public failure( reason: string ): void {
+    let mechanism = this.mechanism && this.mechanism.name;
+
+    if ( !this.done ) return;
+
+    this.mechanism = null;
+    this.received = '';
+
+    if ( this.options.on_failure === 'next' && this.queue.length )
+      return this.next();
+
+    this.network.bot.Logger.warn( `SASL ${ mechanism } authentication failed on ${ this.network.name }: ${ reason }` );
+    this.network.bot.emit( 'sasl_failed::' + this.network.name, this.network, mechanism, reason );
+
+    // leave without ending capability negotiation, so registration never completes unauthenticated
+    if ( this.options.on_failure === 'disconnect' ) {
+      this.done = null;
+
+      return this.network.disconnect();
+    }
+
+    this.finish();
+  }
+
+  /**
+  * Start the exchange for the next mechanism
+  * @return <void>
+  * @private
+  */
+  private next(): void {
+    let name = this.queue.shift();
+
+    this.mechanism = this.create( name );
+
+    if ( !this.mechanism )
+      return this.failure( 'no usable mechanism' );
+
+    this.network.send( 'AUTHENTICATE ' + this.mechanism.name );
+  }
+
+  /**
+  * Send a response in base64 chunks
+  * @param <Buffer> response: The decoded response
+  * @return <void>
+  * @private
+  */
+  private respond( response: Buffer ): void {
+    let encoded = response.toString( 'base64' );
+
+    for ( let i = 0; i < encoded.length; i += SASL.CHUNK )
+      this.network.send( 'AUTHENTICATE ' + encoded.slice( i, i + SASL.CHUNK ) );
+
+    // an empty response, or one ending on a full chunk
+    if ( encoded.length % SASL.CHUNK === 0 )
+      this.network.send( 'AUTHENTICATE +' );
+  }
+
+  /**
+  * @return <void>
+  * @private
+  */
+  private finish(): void {
+    let done = this.done;
+
+    this.done = null;
+    this.mechanism = null;
+
+    if ( done )
+      done();
+  }
+
+  /**
+  * @param <string> name: The mechanism name
+  * @return <IMechanism>
+  * @private
+  */
+  private create( name: string ): IMechanism {
+    switch ( name ) {
+      case 'PLAIN':
+        return new Plain( this.options.username, this.options.password );
+
+      case 'EXTERNAL':
+        return new External();
+
+      case 'SCRAM-SHA-256':
+        return new ScramSha256( this.options.username, this.options.password );
+
+      default:
+        return null;
+    }
+  }
+
+  private defaults(): ISasl {
+    return {
+      username: null,
+      password: null,
+      mechanisms: [ 'PLAIN' ],
+      on_failure: 'continue'
+    };
+  }
 }
 
 
 export interface ISasl {
   username: string;
   password: string;
+
+  /**
+  * The mechanisms to try, in order: 'PLAIN', 'EXTERNAL' or 'SCRAM-SHA-256'
+  */
+  mechanisms?: string[];
+
+  /**
+  * What to do when authentication fails
+  * 'continue': finish registering without authentication
+  * 'disconnect': disconnect from the network
+  * 'next': try the next mechanism, continuing when none remain
+  */
+  on_failure?: string;
 }
@@ -0,0 +1,298 @@
+
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* Outgoing messages, paced by a token bucket to avoid being disconnected for flooding
+*
+* The bucket holds flood_burst tokens and regains one every flood_interval
+* milliseconds, each line sent spends a token. Immediate lines ( PONG, NICK,
+* QUIT... ) skip the queue, the rest wait in a lane by priority where every
+* target takes its turn
+*/
+
+export class SendQueue {
+
+  /**
+  * Commands that are never held back
+  */
+  public static IMMEDIATE = [ 'AUTHENTICATE', 'CAP', 'NICK', 'PASS', 'PING', 'PONG', 'QUIT', 'USER' ];
+
+  /**
+  * Commands sent ahead of messages
+  */
+  public static HIGH = [ 'INVITE', 'JOIN', 'KICK', 'MODE', 'PART', 'TOPIC' ];
+
+  public metrics: ISendQueueMetrics = { sent: 0, dropped: 0, collapsed: 0, peak: 0 };
+
+  private lanes: ILane[];
+  private tokens: number;
+  private last: number;
+  private timeout: any = null;
+
+  /**
+  * @param <Irc> network: The network to pace messages for
+  * @param <Function> write: Writes a line to the connection
+  */
+  constructor( public network: Irc, private write: ( line: string ) => void ) {
+    this.clear();
+  }
+
+  /**
+  * Send a line when the bucket allows
+  * @param <string> line: The line to send, without line ending
+  * @return <void>
+  */
+  public push( line: string ): void {
+    let priority = this.priority( line ),
+        lane: ILane,
+        target: string;
+
+    if ( !this.network.flood_protection || priority === Priority.Immediate ) {
+      this.refill();
+      this.tokens = Math.max( this.tokens - 1, 0 );
+
+      return this.send( line );
+    }
+
+    lane   = this.lanes[ priority ];
+    target = this.target( line );
+
+    if ( !lane.targets[ target ] ) {
+      lane.targets[ target ] = [];
+      lane.order.push( target );
+    }
+
+    lane.targets[ target ].push({ line: line, queued: Date.now() });
+
+    this.metrics.peak = Math.max( this.metrics.peak, this.depth() );
+
+    this.overflow();
+    this.drain();
+  }
+
+  /**
+  * The number of lines waiting
+  * @param <Priority> priority: Count only this lane
+  * @return <number>
+  */
+  public depth( priority?: Priority ): number {
+    let lanes = priority === undefined ? this.lanes : [ this.lanes[ priority ] ];
+
+    return _.sum( _.compact( lanes ), ( lane: ILane ) => {
+      return _.sum( _.values( lane.targets ), 'length' );
+    });
+  }
+
+  /**
+  * Discard waiting lines and refill the bucket
+  * @return <void>
+  */
+  public clear(): void {
+    clearTimeout( this.timeout );
+
+    this.timeout = null;
+    this.lanes   = [];
+    this.tokens  = this.burst();
+    this.last    = Date.now();
+
+    this.lanes[ Priority.High ]   = { order: [], targets: {} };
+    this.lanes[ Priority.Normal ] = { order: [], targets: {} };
+  }
+
+  /**
+  * Send as many waiting lines as there are tokens, then wait for the next token
+  * @return <void>
+  * @private
+  */
+  private drain(): void {
+    let entry: IQueued;
+
+    clearTimeout( this.timeout );
+    this.timeout = null;
+
+    this.refill();
+
+    while ( this.tokens >= 1 && ( entry = this.next() ) ) {
+      if ( this.network.send_queue_ttl && Date.now() - entry.queued > this.network.send_queue_ttl ) {
+        this.drop( entry.line, 'stale' );
+        continue;
+      }
+
+      this.tokens--;
+      this.send( entry.line );
+    }
+
+    if ( this.depth() )
+      this.timeout = setTimeout( this.drain.bind( this ), Math.ceil( ( 1 - this.tokens ) * this.network.flood_interval ) );
+  }
+
+  /**
+  * Take the next line, rotating through the targets of the highest waiting lane
+  * @return <IQueued>
+  * @private
+  */
+  private next(): IQueued {
+    let lane = _.find( _.compact( this.lanes ), ( lane: ILane ) => {
+          return lane.order.length > 0;
+        }),
+        target: string,
+        entry: IQueued;
+
+    if ( !lane ) return null;
+
+    target = lane.order.shift();
+    entry  = lane.targets[ target ].shift();
+
+    if ( lane.targets[ target ].length )
+      lane.order.push( target );
+    else
+      delete lane.targets[ target ];
+
+    return entry;
+  }
+
+  /**
+  * Shrink the queue to send_queue_max lines, dropping the oldest lines of the
+  * busiest target, after collapsing repeated lines when configured to
+  * @return <void>
+  * @private
+  */
+  private overflow(): void {
+    while ( this.network.send_queue_max && this.depth() > this.network.send_queue_max ) {
+      if ( this.network.send_queue_overflow === 'collapse' && this.collapse() )
+        continue;
+
+      this.evict();
+    }
+  }
+
+  /**
+  * Remove the older copy of a line queued more than once
+  * @return <boolean> Was a line removed?
+  * @private
+  */
+  private collapse(): boolean {
+    return _.any( this.lanes.slice().reverse(), ( lane: ILane ) => {
+      return lane && _.any( lane.order, ( target: string ) => {
+        let entries = lane.targets[ target ],
+            index   = _.findIndex( entries, ( entry: IQueued, i: number ) => {
+              return _.any( entries.slice( i + 1 ), 'line', entry.line );
+            });
+
+        if ( index < 0 )
+          return false;
+
+        entries.splice( index, 1 );
+        this.metrics.collapsed++;
+
+        return true;
+      });
+    });
+  }
+
+  /**
+  * Drop the oldest line of the busiest target in the lowest waiting lane
+  * @return <void>
+  * @private
+  */
+  private evict(): void {
+    let lane = _.findLast( _.compact( this.lanes ), ( lane: ILane ) => {
+          return lane.order.length > 0;
+        }),
+        target = _.max( lane.order, ( name: string ) => {
+          return lane.targets[ name ].length;
+        });
+
+    this.drop( lane.targets[ target ].shift().line, 'overflow' );
+
+    if ( !lane.targets[ target ].length ) {
+      delete lane.targets[ target ];
+      _.pull( lane.order, target );
+    }
+  }
+
+  /**
+  * Regain the tokens earned since the last refill
+  * @return <void>
+  * @private
+  */
+  private refill(): void {
+    let now = Date.now();
+
+    this.tokens = Math.min( this.burst(), this.tokens + ( now - this.last ) / this.network.flood_interval );
+    this.last   = now;
+  }
+
+  private burst(): number {
+    return Math.max( this.network.flood_burst, 1 );
+  }
+
+  private send( line: string ): void {
+    this.metrics.sent++;
+    this.write( line );
+  }
+
+  private drop( line: string, reason: string ): void {
+    this.metrics.dropped++;
+
+    this.network.bot.Logger.warn( `dropped ${ reason } message on ${ this.network.name }: ${ line }` );
+    this.network.bot.emit( 'send_dropped::' + this.network.name, this.network, line, reason );
+  }
+
+  /**
+  * @param <string> line: The line to send
+  * @return <Priority>
+  * @private
+  */
+  private priority( line: string ): Priority {
+    let command = String( line ).split( ' ' )[ 0 ].toUpperCase();
+
+    if ( _.contains( SendQueue.IMMEDIATE, command ) )
+      return Priority.Immediate;
+
+    if ( _.contains( SendQueue.HIGH, command ) )
+      return Priority.High;
+
+    return Priority.Normal;
+  }
+
+  /**
+  * The target of a line, e.g. the channel or nick of a PRIVMSG
+  * @param <string> line: The line to send
+  * @return <string>
+  * @private
+  */
+  private target( line: string ): string {
+    return this.network.normalize( String( line ).split( ' ' )[ 1 ] || '' );
+  }
+}
+
+export enum Priority {
+  Immediate,
+  High,
+  Normal
+}
+
+export interface ISendQueueMetrics {
+  sent: number;
+  dropped: number;
+  collapsed: number;
+  /**
+  * The most lines waiting at once
+  */
+  peak: number;
+}
+
+interface ILane {
+  /**
+  * The targets with waiting lines, in turn
+  */
+  order: string[];
+  targets: { [ target: string ]: IQueued[] };
+}
+
+interface IQueued {
+  line: string;
+  queued: number;
+}
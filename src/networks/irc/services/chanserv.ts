@@ -0,0 +1,296 @@
+
+import { IrcChannel } from '../irc_channel';
+import { Irc } from '../irc';
+import * as _ from 'lodash';
+
+/**
+* Ask channel services for help when we cannot join a channel, or lack ops
+*
+* Commands are templates sent to the service, {channel}, {nick} and {mask}
+* are replaced. A dialect supplies the templates of a services package,
+* any of which may be overridden, a null template is not sent
+*/
+
+export class ChanServ {
+
+  public static DIALECTS: { [ name: string ]: IChanServ } = {
+    atheme: {
+      service: 'ChanServ',
+      unban: 'UNBAN {channel}',
+      invite: 'INVITE {channel}',
+      getkey: 'GETKEY {channel}',
+      op: 'OP {channel}',
+      key_pattern: 'key is:? (\\S+)'
+    },
+    anope: {
+      service: 'ChanServ',
+      unban: 'UNBAN {channel}',
+      invite: 'INVITE {channel}',
+      getkey: 'GETKEY {channel}',
+      op: 'OP {channel}',
+      key_pattern: '^KEY \\S+ (\\S+)'
+    },
+    undernet: {
+      service: 'X@channels.undernet.org',
+      unban: 'UNBAN {channel} {nick}',
+      invite: 'INVITE {channel}',
+      getkey: null,
+      op: 'OP {channel}',
+      key_pattern: null
+    },
+    quakenet: {
+      service: 'Q@CServe.quakenet.org',
+      unban: 'UNBANMASK {channel} {mask}',
+      invite: 'INVITE {channel}',
+      getkey: null,
+      op: 'OP {channel}',
+      key_pattern: null
+    }
+  };
+
+  /**
+  * How often we asked for help joining each channel, keyed by the normalized name
+  */
+  private attempts: { [ channel: string ]: number } = {};
+  private requested: { [ key: string ]: number } = {};
+
+  constructor( public network: Irc, public options: IChanServ ) {
+    if ( this.options )
+      this.options = _.defaults( this.options, ChanServ.DIALECTS[ this.options.dialect || 'atheme' ], this.defaults() );
+
+    this.network.bot.on( 'names::' + this.network.name, this.onNames.bind( this ) );
+    this.network.bot.on( 'disconnect::' + this.network.name, () => {
+      this.attempts  = {};
+      this.requested = {};
+    });
+  }
+
+  /**
+  * Are channel services configured?
+  * @return <boolean>
+  */
+  public enabled(): boolean {
+    return !!this.options;
+  }
+
+  /**
+  * We could not join a channel, ask for whatever would let us in
+  * @param <IrcChannel> channel: The channel we tried to join
+  * @param <string> reason: 'banned', 'invite_only', 'bad_key' or 'full'
+  * @return <void>
+  */
+  public joinFailed( channel: IrcChannel, reason: string ): void {
+    let key = this.network.normalize( channel.name ),
+        sent: boolean;
+
+    if ( !this.enabled() ) return;
+
+    if ( ( this.attempts[ key ] = ( this.attempts[ key ] || 0 ) + 1 ) > this.options.attempts ) {
+      this.network.bot.Logger.warn( `giving up on joining ${ channel.name } on ${ this.network.name } with ${ this.options.service }` );
+      return;
+    }
+
+    switch ( reason ) {
+      case 'banned':
+        sent = this.command( this.options.unban, channel );
+        break;
+
+      case 'bad_key':
+        // the key arrives in a notice, otherwise an invite lets us in without it
+        if ( sent = this.command( this.options.getkey, channel ) )
+          return;
+
+        sent = this.command( this.options.invite, channel );
+        break;
+
+      default:
+        sent = this.command( this.options.invite, channel );
+    }
+
+    if ( sent )
+      channel.rejoin( this.options.retry_delay );
+  }
+
+  /**
+  * Ask for channel operator status
+  * @param <IrcChannel> channel: The channel
+  * @return <void>
+  */
+  public op( channel: IrcChannel ): void {
+    if ( !this.enabled() || channel.isOp( this.network.myNick() ) ) return;
+
+    this.throttled( 'op', channel, () => {
+      this.command( this.options.op, channel );
+    });
+  }
+
+  /**
+  * An operation failed for lack of ops ( ERR_CHANOPRIVSNEEDED )
+  * @param <IrcChannel> channel: The channel
+  * @return <void>
+  */
+  public opsNeeded( channel: IrcChannel ): void {
+    if ( this.enabled() && this.options.auto_op )
+      this.op( channel );
+  }
+
+  /**
+  * We were invited to a channel, join it if it is one of ours
+  * @param <string> name: The channel name
+  * @return <void>
+  */
+  public invited( name: string ): void {
+    let channel = this.network.findChannel( name );
+
+    if ( !channel || channel.inChannel || !this.attempts[ this.network.normalize( name ) ] )
+      return;
+
+    channel.cancelRejoin();
+    channel.join();
+  }
+
+  /**
+  * Check a notice from the service for a channel key
+  * @param <any> message: The notice
+  * @return <void>
+  */
+  public notice( message: any ): void {
+    let text = ( message.params[ 1 ] || '' ).replace( /[\x02\x1F\x0F]/g, '' ),
+        words = _.map( text.split( /\s+/ ), ( word: string ) => word.replace( /[.,:;!?"']+$/, '' ) ),
+        match: RegExpExecArray,
+        channel: IrcChannel;
+
+    if ( !this.enabled() || !this.options.key_pattern || !this.fromService( message.nick ) )
+      return;
+
+    if ( !( match = new RegExp( this.options.key_pattern, 'i' ).exec( text ) ) )
+      return;
+
+    channel = _.find( this.network.channel, ( channel: IrcChannel ) => {
+      return !channel.inChannel && this.attempts[ this.network.normalize( channel.name ) ] && _.any( words, ( word: string ) => {
+        return this.network.equals( word, channel.name );
+      });
+    });
+
+    if ( !channel ) return;
+
+    // joins use the password, so rejoining later uses the new key too
+    channel.password = match[ 1 ];
+    channel.cancelRejoin();
+    channel.join();
+  }
+
+  /**
+  * Joined, ask for ops if we want them
+  * @param <Irc> network: This network
+  * @param <IrcChannel> channel: The channel joined
+  * @return <void>
+  * @private
+  */
+  private onNames( network: Irc, channel: IrcChannel ): void {
+    delete this.attempts[ this.network.normalize( channel.name ) ];
+
+    this.opsNeeded( channel );
+  }
+
+  /**
+  * Send a command template to the service
+  * @param <string> template: e.g. 'UNBAN {channel}'
+  * @param <IrcChannel> channel: The channel
+  * @return <boolean> Was the command sent?
+  * @private
+  */
+  private command( template: string, channel: IrcChannel ): boolean {
+    let values: { [ key: string ]: string } = {
+      channel: channel.name,
+      nick: this.network.myNick(),
+      mask: `${ this.network.myNick() }!${ this.network.ident || '*' }@${ this.network.hostname || '*' }`
+    };
+
+    if ( !template ) return false;
+
+    this.network.send( `PRIVMSG ${ this.options.service } :${ template.replace( /\{(\w+)\}/g, ( match: string, key: string ) => {
+      return values[ key ] === undefined ? match : values[ key ];
+    }) }` );
+
+    return true;
+  }
+
+  /**
+  * Send a request at most once every retry_delay milliseconds per channel
+  * @param <string> request: The request name
+  * @param <IrcChannel> channel: The channel
+  * @param <Function> send: Sends the request
+  * @return <void>
+  * @private
+  */
+  private throttled( request: string, channel: IrcChannel, send: Function ): void {
+    let key = request + ' ' + this.network.normalize( channel.name ),
+        now = Date.now();
+
+    if ( now - ( this.requested[ key ] || 0 ) < this.options.retry_delay )
+      return;
+
+    this.requested[ key ] = now;
+
+    send();
+  }
+
+  /**
+  * Is the nick that of the service? e.g. 'X' for 'X@channels.undernet.org'
+  * @param <string> nick: The nick
+  * @return <boolean>
+  * @private
+  */
+  private fromService( nick: string ): boolean {
+    return this.network.equals( nick, this.options.service.split( '@' )[ 0 ] );
+  }
+
+  /**
+  * @return <IChanServ>
+  * @private
+  */
+  private defaults(): IChanServ {
+    return {
+      auto_op: false,
+      retry_delay: 3000,
+      attempts: 3
+    };
+  }
+}
+
+export interface IChanServ {
+  /**
+  * 'atheme', 'anope', 'undernet' or 'quakenet'
+  */
+  dialect?: string;
+  service?: string;
+
+  /**
+  * Command templates, {channel}, {nick} and {mask} are replaced
+  */
+  unban?: string;
+  invite?: string;
+  getkey?: string;
+  op?: string;
+
+  /**
+  * Matched against notices from the service, the first group is the key
+  */
+  key_pattern?: string;
+
+  /**
+  * Ask for ops after joining, and when an operation needs them
+  */
+  auto_op?: boolean;
+
+  /**
+  * Milliseconds to wait before joining again
+  */
+  retry_delay?: number;
+
+  /**
+  * Ask for help joining a channel at most this many times in a row
+  */
+  attempts?: number;
+}
@@ -0,0 +1,314 @@
+
+import { Timer } from '../../../utilities/timer';
+import { Irc } from '../irc';
+import * as _ from 'lodash';
+
+/**
+* Identify to NickServ and recover our preferred nick
+*
+* Commands are templates sent to the service, {account}, {nick} and
+* {password} are replaced. Identification is confirmed by RPL_LOGGEDIN
+* ( also sent after SASL ) or by a notice from the service
+*/
+
+export class NickServ {
+
+  /**
+  * How long to wait after a GHOST before taking the nick
+  */
+  public static GHOST_DELAY = 2000;
+
+  public identified: boolean = false;
+  public account: string = null;
+
+  private waiting: Function[] = [];
+  private timeout: any = null;
+  private ghost_timeout: any = null;
+  private retry_timer: Timer;
+  private recovering: boolean = false;
+
+  constructor( public network: Irc, public options: INickServ ) {
+    this.options = _.defaults( this.options || <INickServ>{}, this.defaults() );
+
+    this.network.bot.on( 'disconnect::' + this.network.name, this.reset.bind( this ) );
+  }
+
+  /**
+  * Called once registered, identify and recover our nick
+  * @param <Function> ready: Called once identified, or straight away when not waiting
+  * @return <void>
+  */
+  public start( ready: Function ): void {
+    this.waiting.push( ready );
+
+    if ( !this.onPreferredNick() ) {
+      this.recover();
+      this.retry();
+    }
+
+    if ( !this.options.password || this.identified )
+      return this.release();
+
+    this.identify();
+
+    if ( !this.options.wait )
+      return this.release();
+
+    this.timeout = setTimeout( () => {
+      this.network.bot.Logger.warn( `no NickServ confirmation on ${ this.network.name }, continuing` );
+      this.release();
+    }, this.options.timeout );
+  }
+
+  /**
+  * Send the identify command
+  * @return <void>
+  */
+  public identify(): void {
+    if ( this.options.password )
+      this.command( this.options.identify );
+  }
+
+  /**
+  * Take back our preferred nick, ghosting or regaining it when we have a password
+  * Services are asked once per retry, so a nick we cannot recover does not loop
+  * @return <void>
+  */
+  public recover(): void {
+    if ( this.onPreferredNick() || this.recovering ) return;
+
+    if ( !this.options.password )
+      return this.take();
+
+    this.recovering = true;
+
+    if ( this.options.regain )
+      return this.command( this.options.regain );
+
+    this.command( this.options.ghost );
+
+    this.ghost_timeout = setTimeout( this.take.bind( this ), NickServ.GHOST_DELAY );
+  }
+
+  /**
+  * ERR_NICKNAMEINUSE once registered, without a password we wait for the retry timer
+  * @param <string> nick: The nick we asked for
+  * @return <void>
+  */
+  public inUse( nick: string ): void {
+    if ( this.options.password && this.network.equals( nick, this.network.nick ) )
+      this.recover();
+  }
+
+  /**
+  * Another user quit or changed nick, take our preferred nick if they held it
+  * @param <string> nick: The nick they no longer use
+  * @return <void>
+  */
+  public released( nick: string ): void {
+    if ( this.network.equals( nick, this.network.nick ) && !this.onPreferredNick() )
+      this.take();
+  }
+
+  /**
+  * We changed nick
+  * @return <void>
+  */
+  public changed(): void {
+    if ( !this.onPreferredNick() ) return;
+
+    this.recovering = false;
+    clearTimeout( this.ghost_timeout );
+
+    if ( this.retry_timer )
+      this.retry_timer.stop();
+
+    this.network.bot.emit( 'nick_recovered::' + this.network.name, this.network, this.network.nick );
+
+    if ( !this.identified )
+      this.identify();
+  }
+
+  /**
+  * RPL_LOGGEDIN
+  * @param <string> account: The account we are logged in to
+  * @return <void>
+  */
+  public loggedIn( account: string ): void {
+    let first = !this.identified;
+
+    this.identified = true;
+    this.account = account;
+
+    if ( first )
+      this.network.bot.emit( 'identified::' + this.network.name, this.network, account );
+
+    this.release();
+  }
+
+  /**
+  * RPL_LOGGEDOUT
+  * @return <void>
+  */
+  public loggedOut(): void {
+    this.identified = false;
+    this.account = null;
+  }
+
+  /**
+  * Check a notice from the service for the result of identifying
+  * @param <any> message: The notice
+  * @return <void>
+  */
+  public notice( message: any ): void {
+    let text = message.params[ 1 ] || '';
+
+    if ( !this.options.password || !this.network.equals( message.nick, this.options.service ) )
+      return;
+
+    if ( new RegExp( this.options.identified_pattern, 'i' ).test( text ) )
+      return this.loggedIn( this.account || this.options.account || this.network.nick );
+
+    if ( new RegExp( this.options.failed_pattern, 'i' ).test( text ) ) {
+      this.network.bot.Logger.warn( `NickServ identification failed on ${ this.network.name }: ${ text }` );
+      this.network.bot.emit( 'identify_failed::' + this.network.name, this.network, text );
+      this.release();
+    }
+  }
+
+  /**
+  * Are we using our preferred nick?
+  * @return <boolean>
+  */
+  public onPreferredNick(): boolean {
+    return this.network.isMe( this.network.nick );
+  }
+
+  /**
+  * Keep trying for our preferred nick every nick_retry milliseconds
+  * @return <void>
+  * @private
+  */
+  private retry(): void {
+    if ( !this.network.nick_retry ) return;
+
+    if ( !this.retry_timer ) {
+      this.retry_timer = this.network.Timer(
+        {
+          interval: this.network.nick_retry,
+          reference: 'nick retry::' + this.network.name
+        },
+        ( done: Function ) => {
+          this.recovering = false;
+          this.recover();
+          done();
+        }
+      );
+    }
+
+    this.retry_timer.start();
+  }
+
+  private take(): void {
+    this.network.send( `NICK ${ this.network.nick }` );
+  }
+
+  /**
+  * Send a command template to the service
+  * @param <string> template: e.g. 'GHOST {nick} {password}'
+  * @return <void>
+  * @private
+  */
+  private command( template: string ): void {
+    let values: { [ key: string ]: string } = {
+      account: this.options.account || this.network.nick,
+      nick: this.network.nick,
+      password: this.options.password
+    };
+
+    this.network.send( `PRIVMSG ${ this.options.service } :${ template.replace( /\{(\w+)\}/g, ( match: string, key: string ) => {
+      return values[ key ] === undefined ? match : values[ key ];
+    }) }` );
+  }
+
+  /**
+  * Call whatever is waiting on identification
+  * @return <void>
+  * @private
+  */
+  private release(): void {
+    let waiting = this.waiting;
+
+    clearTimeout( this.timeout );
+    this.waiting = [];
+
+    _.each( waiting, ( ready: Function ) => {
+      ready();
+    });
+  }
+
+  private reset(): void {
+    clearTimeout( this.timeout );
+    clearTimeout( this.ghost_timeout );
+
+    if ( this.retry_timer )
+      this.retry_timer.stop();
+
+    this.waiting = [];
+    this.identified = false;
+    this.account = null;
+    this.recovering = false;
+  }
+
+  /**
+  * @return <INickServ>
+  * @private
+  */
+  private defaults(): INickServ {
+    return {
+      password: null,
+      account: null,
+      service: 'NickServ',
+      identify: 'IDENTIFY {account} {password}',
+      ghost: 'GHOST {nick} {password}',
+      regain: null,
+      identified_pattern: 'you are now (identified|logged in)|password accepted',
+      failed_pattern: 'invalid password|password incorrect|not registered',
+      wait: true,
+      timeout: 30000
+    };
+  }
+}
+
+export interface INickServ {
+  password: string;
+
+  /**
+  * The account to identify to, the preferred nick if not given
+  */
+  account?: string;
+  service?: string;
+
+  /**
+  * Command templates, {account}, {nick} and {password} are replaced
+  */
+  identify?: string;
+  ghost?: string;
+
+  /**
+  * When given, e.g. 'REGAIN {nick} {password}', used instead of ghost
+  */
+  regain?: string;
+
+  /**
+  * Patterns matched against notices from the service
+  */
+  identified_pattern?: string;
+  failed_pattern?: string;
+
+  /**
+  * Delay joining channels until identified, at most timeout milliseconds
+  */
+  wait?: boolean;
+  timeout?: number;
+}
@@ -0,0 +1,144 @@
+
+/**
+* Split outgoing text into parts that fit on an IRC line
+*
+* Text is split on newlines, then on whole characters so no part ends
+* in the middle of a multibyte character, preferably at a space. Colours
+* and styles still in effect at a split are repeated at the start of the next part
+*/
+
+export module Split {
+
+  const TOKENS = /\x03(?:\d{1,2}(?:,\d{1,2})?)?|[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g;
+
+  const STYLES: { [ code: string ]: string } = {
+    '\x02': 'bold',
+    '\x1D': 'italic',
+    '\x1F': 'underline',
+    '\x16': 'reverse',
+    '\x1E': 'strikethrough',
+    '\x11': 'monospace'
+  };
+
+  /**
+  * Split text into parts of at most max bytes
+  * @param <string> text: The text to send
+  * @param <number> max: The most bytes of text a line can hold
+  * @param <string> encoding: The network encoding
+  * @return <string[]>
+  */
+  export function message( text: string, max: number, encoding: string = 'utf8' ): string[] {
+    let parts: string[] = [],
+        style = new Style();
+
+    ( text || '' ).split( /\r\n|\r|\n/ ).forEach( ( line: string ) => {
+      let tokens = line.match( TOKENS ) || [];
+
+      while ( tokens.length ) {
+        let head  = style.restore(),
+            bytes = Buffer.byteLength( head, encoding ),
+            taken = 0,
+            space = -1,
+            end: number,
+            next: number,
+            part: string[];
+
+        while ( taken < tokens.length && bytes + Buffer.byteLength( tokens[ taken ], encoding ) <= max ) {
+          if ( tokens[ taken ] === ' ' )
+            space = taken;
+
+          bytes += Buffer.byteLength( tokens[ taken++ ], encoding );
+        }
+
+        // always make progress, even if a single character does not fit
+        end = next = Math.max( taken, 1 );
+
+        if ( taken < tokens.length ) {
+          if ( tokens[ taken ] === ' ' )
+            next = taken + 1;
+
+          else if ( space > 0 ) {
+            end  = space;
+            next = space + 1;
+          }
+        }
+
+        part   = tokens.slice( 0, end );
+        tokens = tokens.slice( next );
+
+        part.forEach( style.apply.bind( style ) );
+
+        if ( strip( part.join( '' ) ).trim() )
+          parts.push( head + part.join( '' ) );
+      }
+    });
+
+    return parts;
+  }
+
+  /**
+  * Remove colours and styles
+  * @param <string> text: The formatted text
+  * @return <string>
+  */
+  export function strip( text: string ): string {
+    return text.replace( /\x03(?:\d{1,2}(?:,\d{1,2})?)?|[\x02\x0F\x11\x16\x1D\x1E\x1F]/g, '' );
+  }
+
+  /**
+  * The colours and styles in effect
+  */
+  class Style {
+    private styles: { [ name: string ]: boolean } = {};
+    private foreground: string = null;
+    private background: string = null;
+
+    /**
+    * Update the state with a character or control code
+    * @param <string> token: A single character or control code
+    * @return <void>
+    */
+    public apply( token: string ): void {
+      let color: RegExpExecArray;
+
+      if ( STYLES[ token ] )
+        this.styles[ STYLES[ token ] ] = !this.styles[ STYLES[ token ] ];
+
+      else if ( token === '\x0F' ) {
+        this.styles     = {};
+        this.foreground = this.background = null;
+      }
+
+      else if ( color = /^\x03(\d{1,2})?(?:,(\d{1,2}))?$/.exec( token ) ) {
+        if ( !color[ 1 ] )
+          this.foreground = this.background = null;
+        else {
+          this.foreground = color[ 1 ];
+          this.background = color[ 2 ] || this.background;
+        }
+      }
+    }
+
+    /**
+    * The codes that restore this state
+    * @return <string>
+    */
+    public restore(): string {
+      let codes = '';
+
+      Object.keys( STYLES ).forEach( ( code: string ) => {
+        if ( this.styles[ STYLES[ code ] ] )
+          codes += code;
+      });
+
+      if ( this.foreground )
+        codes += '\x03' + pad( this.foreground ) + ( this.background ? ',' + pad( this.background ) : '' );
+
+      return codes;
+    }
+  }
+
+  function pad( color: string ): string {
+    return ( '0' + color ).slice( -2 );
+  }
+}
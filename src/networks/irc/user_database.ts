@@ -0,0 +1,329 @@
+
+import { IrcChannel } from './irc_channel';
+import { IModeChange } from './modes';
+import { IrcUser } from './irc_user';
+import { Irc } from './irc';
+import * as _ from 'lodash';
+import * as fs from 'fs';
+
+/**
+* Trusted users, eggdrop style
+*
+* Each user has a handle, the hostmasks and / or services account they are
+* known by, and flags held globally or per channel:
+*   n: owner, m: master, o: op, v: voice, f: friend, d: deop, k: kick
+* An owner is also a master, a master also an op, and an op also voiced
+*
+* The database is stored as JSON in the user_file, or kept in memory when not given
+*/
+
+export class UserDatabase {
+
+  public static FLAGS = 'nmovfdk';
+
+  /**
+  * The flags each flag implies
+  */
+  public static IMPLIES: { [ flag: string ]: string } = {
+    n: 'mov',
+    m: 'ov',
+    o: 'v'
+  };
+
+  public records: { [ handle: string ]: IUserRecord } = {};
+
+  /**
+  * Set when the user_file could not be read, so saving does not overwrite it
+  */
+  private unreadable: boolean = false;
+
+  constructor( public network: Irc, public file: string ) {
+    this.load();
+  }
+
+  /**
+  * Read the database from the user_file, a file that cannot be read is left alone
+  * and changes are kept in memory until it can be
+  * @return <void>
+  */
+  public load(): void {
+    if ( !this.file || !fs.existsSync( this.file ) ) return;
+
+    try {
+      this.records = JSON.parse( fs.readFileSync( this.file, 'utf8' ) ).users || {};
+      this.unreadable = false;
+    }
+    catch ( e ) {
+      this.unreadable = true;
+      this.network.bot.Logger.error( `could not read the user database ${ this.file } for ${ this.network.name }: ${ e }` );
+    }
+  }
+
+  /**
+  * Write the database to the user_file
+  * @return <void>
+  */
+  public save(): void {
+    if ( !this.file ) return;
+
+    if ( this.unreadable ) {
+      this.network.bot.Logger.error( `not writing the user database ${ this.file } for ${ this.network.name }, it could not be read` );
+      return;
+    }
+
+    try {
+      fs.writeFileSync( this.file, JSON.stringify( { users: this.records }, null, 2 ) );
+    }
+    catch ( e ) {
+      this.network.bot.Logger.error( `could not write the user database ${ this.file } for ${ this.network.name }: ${ e }` );
+    }
+  }
+
+  /**
+  * Add a user, or update one with the same handle
+  * @param <string> handle: The name the user is known by
+  * @param <IUserRecord> record: The masks, account and flags of the user
+  * @return <IUserRecord>
+  */
+  public add( handle: string, record: IUserRecord = {} ): IUserRecord {
+    let existing = this.records[ handle ] || {};
+
+    this.records[ handle ] = {
+      masks: _.uniq( ( existing.masks || [] ).concat( record.masks || [] ) ),
+      account: record.account || existing.account || null,
+      flags: this.change( existing.flags, record.flags ),
+      channels: _.assign( {}, existing.channels, record.channels )
+    };
+
+    this.save();
+
+    return this.records[ handle ];
+  }
+
+  /**
+  * Remove a user
+  * @param <string> handle: The handle of the user
+  * @return <boolean> Was the user found?
+  */
+  public remove( handle: string ): boolean {
+    if ( !this.records[ handle ] ) return false;
+
+    delete this.records[ handle ];
+
+    this.save();
+
+    return true;
+  }
+
+  /**
+  * Add a hostmask to a user
+  * @param <string> handle: The handle of the user
+  * @param <string> mask: The hostmask, e.g. '*!*@example.com'
+  * @return <void>
+  */
+  public addMask( handle: string, mask: string ): void {
+    this.add( handle, { masks: [ mask ] } );
+  }
+
+  /**
+  * Remove a hostmask from a user
+  * @param <string> handle: The handle of the user
+  * @param <string> mask: The hostmask
+  * @return <void>
+  */
+  public removeMask( handle: string, mask: string ): void {
+    let record = this.records[ handle ];
+
+    if ( !record ) return;
+
+    record.masks = _.without( record.masks, mask );
+
+    this.save();
+  }
+
+  /**
+  * Change the flags of a user, globally or in a channel
+  * @param <string> handle: The handle of the user
+  * @param <string> flags: e.g. '+ov-d', flags without a sign are added
+  * @param <string> channel: The channel name, global when not given
+  * @return <void>
+  */
+  public setFlags( handle: string, flags: string, channel?: string ): void {
+    let record = this.records[ handle ] || this.add( handle ),
+        name: string;
+
+    if ( !channel ) {
+      record.flags = this.change( record.flags, flags );
+    }
+    else {
+      record.channels = record.channels || {};
+      name = _.find( _.keys( record.channels ), ( key: string ) => this.network.equals( key, channel ) ) || channel;
+      record.channels[ name ] = this.change( record.channels[ name ], flags );
+    }
+
+    this.save();
+  }
+
+  /**
+  * Find the handle of a user by services account or hostmask
+  * @param <IrcUser> user: The user
+  * @return <string> null when the user is not known
+  */
+  public find( user: IrcUser ): string {
+    return _.find( _.keys( this.records ), ( handle: string ) => {
+      let record = this.records[ handle ];
+
+      return ( !!record.account && !!user.account && this.network.equals( record.account, user.account ) )
+        || _.any( record.masks, ( mask: string ) => user.matches( mask ) );
+    }) || null;
+  }
+
+  /**
+  * The flags a user holds, globally and in the channel, with the flags they imply
+  * The owner option grants owner flags to a hostmask or services account
+  * @param <IrcUser> user: The user
+  * @param <IrcChannel|string> channel: The channel, only global flags when not given
+  * @return <string> e.g. 'ov'
+  */
+  public flags( user: IrcUser, channel?: IrcChannel | string ): string {
+    let handle = this.find( user ),
+        record = this.records[ handle ],
+        name   = channel instanceof IrcChannel ? channel.name : <string>channel,
+        held   = '';
+
+    if ( record ) {
+      held = record.flags || '';
+
+      _.each( record.channels, ( flags: string, key: string ) => {
+        if ( name && this.network.equals( key, name ) )
+          held += flags;
+      });
+    }
+
+    if ( this.isOwner( user ) )
+      held += 'n';
+
+    _.each( held.split( '' ), ( flag: string ) => {
+      held += UserDatabase.IMPLIES[ flag ] || '';
+    });
+
+    return _.filter( UserDatabase.FLAGS.split( '' ), ( flag: string ) => held.indexOf( flag ) >= 0 ).join( '' );
+  }
+
+  /**
+  * Does the user hold every one of the flags?
+  * @param <IrcUser> user: The user
+  * @param <string> flags: e.g. 'o'
+  * @param <IrcChannel|string> channel: The channel, only global flags when not given
+  * @return <boolean>
+  */
+  public hasFlags( user: IrcUser, flags: string, channel?: IrcChannel | string ): boolean {
+    let held = this.flags( user, channel );
+
+    return _.every( flags.split( '' ), ( flag: string ) => held.indexOf( flag ) >= 0 );
+  }
+
+  /**
+  * Op, voice or kick a user who joined, as their flags say
+  * @param <IrcChannel> channel: The channel
+  * @param <IrcUser> user: The user
+  * @return <void>
+  */
+  public check( channel: IrcChannel, user: IrcUser ): void {
+    let flags: string;
+
+    if ( !channel.isHalfop( this.network.myNick() ) ) return;
+
+    flags = this.flags( user, channel );
+
+    if ( this.network.auto_kick && flags.indexOf( 'k' ) >= 0 && !flags.match( /[nmf]/ ) )
+      return channel.kickban( user, 'banned' );
+
+    if ( this.network.auto_op && flags.indexOf( 'o' ) >= 0 && flags.indexOf( 'd' ) < 0 && !channel.isOp( user ) && channel.isOp( this.network.myNick() ) )
+      return channel.op( user );
+
+    if ( this.network.auto_voice && flags.indexOf( 'v' ) >= 0 && !channel.isVoice( user ) )
+      channel.voice( user );
+  }
+
+  /**
+  * Take ops from users flagged deop, and check everyone once we are opped
+  * @param <IrcChannel> channel: The channel
+  * @param <IModeChange[]> changes: The mode changes
+  * @return <void>
+  */
+  public modes( channel: IrcChannel, changes: IModeChange[] ): void {
+    _.each( changes, ( change: IModeChange ) => {
+      let user: IrcUser;
+
+      if ( change.type !== 'prefix' || !change.adding ) return;
+
+      if ( this.network.isMe( change.param ) ) {
+        _.each( channel.users, ( user: IrcUser ) => {
+          this.check( channel, user );
+        });
+      }
+      else if ( change.mode === 'o' && ( user = this.network.findUser( change.param ) ) && this.hasFlags( user, 'd', channel ) && channel.isOp( this.network.myNick() ) ) {
+        channel.deop( user );
+      }
+    });
+  }
+
+  /**
+  * Is the user the owner named in the options?
+  * @param <IrcUser> user: The user
+  * @return <boolean>
+  * @private
+  */
+  private isOwner( user: IrcUser ): boolean {
+    let owner = this.network.owner;
+
+    if ( !owner ) return false;
+
+    // a hostmask, otherwise a services account
+    if ( /[!@]/.test( owner ) )
+      return user.matches( owner );
+
+    return !!user.account && this.network.equals( user.account, owner );
+  }
+
+  /**
+  * Apply a flag change
+  * @param <string> flags: The flags held, e.g. 'ov'
+  * @param <string> change: e.g. '+f-v', flags without a sign are added
+  * @return <string>
+  * @private
+  */
+  private change( flags: string = '', change: string = '' ): string {
+    let adding = true;
+
+    _.each( change.split( '' ), ( flag: string ) => {
+      if ( flag === '+' || flag === '-' )
+        adding = flag === '+';
+
+      else if ( UserDatabase.FLAGS.indexOf( flag ) >= 0 )
+        flags = adding ? _.union( flags.split( '' ), [ flag ] ).join( '' ) : flags.replace( flag, '' );
+    });
+
+    return flags;
+  }
+}
+
+export interface IUserRecord {
+  masks?: string[];
+
+  /**
+  * The services account, matched when the user is logged in
+  */
+  account?: string;
+
+  /**
+  * Global flags, e.g. 'mo'
+  */
+  flags?: string;
+
+  /**
+  * Flags held in a channel, keyed by channel name
+  */
+  channels?: { [ channel: string ]: string };
+}
@@ -0,0 +1,161 @@
+
+import { Timer } from '../../utilities/timer';
+import { IrcUser } from './irc_user';
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* Queue WHO requests so joining many channels does not flood the server
+*
+* WHOX replies ( RPL_WHOSPCRPL ) are requested with the fields
+* t: token, c: channel, u: ident, h: host, n: nick, f: flags, a: account, r: realname
+*/
+
+export class Who {
+
+  /**
+  * Identifies our WHOX replies, at most 3 digits
+  */
+  public static TOKEN = '152';
+
+  public static FIELDS = '%tcuhnfar';
+
+  public queue: string[] = [];
+
+  private timer: Timer;
+
+  constructor( public network: Irc ) {
+    this.network.bot.on( 'disconnect::' + this.network.name, this.clear.bind( this ) );
+  }
+
+  /**
+  * Queue a WHO request for a channel or nick
+  * @param <string> target: The channel or nick to query
+  * @return <void>
+  */
+  public request( target: string ): void {
+    let queued = _.any( this.queue, ( name ) => {
+      return this.network.equals( name, target );
+    });
+
+    if ( queued )
+      return;
+
+    this.queue.push( target );
+
+    if ( !this.timer ) {
+      this.timer = this.network.Timer(
+        {
+          interval: this.network.who_delay,
+          immediate: true,
+          reference: 'who::' + this.network.name
+        },
+        this.next.bind( this )
+      );
+    }
+
+    this.timer.start();
+  }
+
+  /**
+  * Drop any queued requests
+  * @return <void>
+  */
+  public clear(): void {
+    this.queue = [];
+
+    if ( this.timer )
+      this.timer.stop();
+  }
+
+  /**
+  * Update a user from a RPL_WHOREPLY
+  * @param <string[]> params: [ nick, channel, ident, host, server, nick, flags, 'hops realname' ]
+  * @return <IrcUser>
+  */
+  public reply( params: string[] ): IrcUser {
+    let [ , , ident, hostname, server, nick, flags, trailing ] = params,
+        user = this.update( nick, flags, {
+          ident: ident,
+          hostname: hostname,
+          server: server
+        });
+
+    if ( user && trailing )
+      user.realname = trailing.replace( /^\d+\s?/, '' );
+
+    return user;
+  }
+
+  /**
+  * Update a user from a RPL_WHOSPCRPL
+  * @param <string[]> params: [ nick, token, channel, ident, host, nick, flags, account, realname ]
+  * @return <IrcUser>
+  */
+  public special( params: string[] ): IrcUser {
+    let [ , token, , ident, hostname, nick, flags, account, realname ] = params;
+
+    // a WHOX someone else asked for, with fields we can not place
+    if ( token !== Who.TOKEN )
+      return null;
+
+    return this.update( nick, flags, {
+      ident: ident,
+      hostname: hostname,
+      account: account === '0' ? null : account,
+      realname: realname
+    });
+  }
+
+  /**
+  * Send the next queued request
+  * @param <Function> done: Signal the timer the job is complete
+  * @return <void>
+  * @private
+  */
+  private next( done: Function ): void {
+    let target = this.queue.shift();
+
+    // idle for a full interval before stopping, so a request arriving
+    // right after the queue empties still has to wait its turn
+    if ( !target )
+      this.timer.stop();
+
+    else if ( this.network.ircd.whox )
+      this.network.send( `WHO ${ target } ${ Who.FIELDS },${ Who.TOKEN }` );
+
+    else
+      this.network.send( `WHO ${ target }` );
+
+    done();
+  }
+
+  /**
+  * Apply reply fields to a known user
+  * @param <string> nick: The nick of the user
+  * @param <string> flags: The WHO flags, e.g. 'G*@'
+  * @param <any> fields: The fields to apply
+  * @return <IrcUser>
+  * @private
+  */
+  private update( nick: string, flags: string, fields: any ): IrcUser {
+    let user = this.network.findUser( nick );
+
+    if ( !user )
+      return null;
+
+    _.assign( user, fields );
+
+    flags = flags || '';
+
+    // WHO does not give the away message, keep one we already know
+    if ( flags.indexOf( 'G' ) >= 0 )
+      user.away = true;
+    else
+      user.setBack();
+
+    user.oper = flags.indexOf( '*' ) >= 0;
+
+    return user;
+  }
+}
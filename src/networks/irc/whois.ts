@@ -0,0 +1,285 @@
+
+import { Irc } from './irc';
+import * as _ from 'lodash';
+
+/**
+* Correlate WHOIS and WHOWAS numerics into a single record per query
+*
+* Queries for the same nick share the request sent to the server
+*/
+
+export class Whois {
+
+  private pending: { [ query: string ]: IWhoisQuery } = {};
+
+  constructor( public network: Irc ) {
+    this.network.bot.on( 'disconnect::' + this.network.name, () => {
+      _.each( _.keys( this.pending ), ( key: string ) => {
+        this.finish( key, new Error( 'disconnected from ' + this.network.name ) );
+      });
+    });
+  }
+
+  /**
+  * Send a WHOIS or WHOWAS, unless one for the nick is already waiting
+  * @param <string> command: 'WHOIS' or 'WHOWAS'
+  * @param <string> nick: The nick to query
+  * @param <Function> callback: Optional node style callback
+  * @return <PromiseLike<IWhoisRecord>>
+  */
+  public query( command: string, nick: string, callback?: ( err: Error, record?: IWhoisRecord ) => void ): PromiseLike<IWhoisRecord> {
+    let key   = this.key( command, nick ),
+        query = this.pending[ key ];
+
+    if ( !query ) {
+      query = this.pending[ key ] = <IWhoisQuery>{
+        command: command,
+        record: this.record( nick ),
+        timeout: null
+      };
+
+      query.promise = new Promise<IWhoisRecord>( ( resolve, reject ) => {
+        query.resolve = resolve;
+        query.reject  = reject;
+      });
+
+      query.timeout = setTimeout( () => {
+        this.finish( key, new Error( `${ command } ${ nick } timed out on ${ this.network.name }` ) );
+      }, this.network.whois_timeout );
+
+      this.network.send( `${ command } ${ nick }` );
+    }
+
+    if ( callback ) {
+      query.promise.then(
+        ( record: IWhoisRecord ) => { callback( null, record ); },
+        ( err: Error ) => { callback( err ); }
+      );
+    }
+
+    return query.promise;
+  }
+
+  /**
+  * RPL_WHOISUSER and RPL_WHOWASUSER
+  * @param <string[]> params: [ me, nick, ident, host, '*', realname ]
+  * @return <void>
+  */
+  public user( params: string[] ): void {
+    this.update( params[ 1 ], {
+      nick: params[ 1 ],
+      ident: params[ 2 ],
+      hostname: params[ 3 ],
+      realname: params[ 5 ]
+    });
+  }
+
+  /**
+  * RPL_WHOISSERVER
+  * @param <string[]> params: [ me, nick, server, info ]
+  * @return <void>
+  */
+  public server( params: string[] ): void {
+    this.update( params[ 1 ], {
+      server: params[ 2 ],
+      server_info: params[ 3 ]
+    });
+  }
+
+  /**
+  * RPL_WHOISOPERATOR
+  * @param <string[]> params: [ me, nick, text ]
+  * @return <void>
+  */
+  public operator( params: string[] ): void {
+    this.update( params[ 1 ], { operator: true } );
+  }
+
+  /**
+  * RPL_WHOISIDLE
+  * @param <string[]> params: [ me, nick, idle seconds, signon timestamp, text ]
+  * @return <void>
+  */
+  public idle( params: string[] ): void {
+    let signon = parseInt( params[ 3 ], 10 );
+
+    this.update( params[ 1 ], {
+      idle: parseInt( params[ 2 ], 10 ),
+      signon: isNaN( signon ) ? null : new Date( signon * 1000 )
+    });
+  }
+
+  /**
+  * RPL_WHOISCHANNELS, may be sent more than once
+  * @param <string[]> params: [ me, nick, '@#channel +#other' ]
+  * @return <void>
+  */
+  public channels( params: string[] ): void {
+    let ircd = this.network.ircd,
+        channels = _.compact( ( params[ 2 ] || '' ).split( ' ' ) ).map( ( channel: string ) => {
+          // strip status symbols, keeping those that are also channel types
+          while ( ircd.prefixMode( channel[ 0 ] ) && ircd.isChannel( channel.slice( 1 ) ) )
+            channel = channel.slice( 1 );
+
+          return channel;
+        });
+
+    _.each( this.find( params[ 1 ] ), ( query: IWhoisQuery ) => {
+      query.record.channels = query.record.channels.concat( channels );
+    });
+  }
+
+  /**
+  * RPL_WHOISACCOUNT
+  * @param <string[]> params: [ me, nick, account, text ]
+  * @return <void>
+  */
+  public account( params: string[] ): void {
+    this.update( params[ 1 ], { account: params[ 2 ] } );
+  }
+
+  /**
+  * RPL_WHOISSECURE
+  * @param <string[]> params: [ me, nick, text ]
+  * @return <void>
+  */
+  public secure( params: string[] ): void {
+    this.update( params[ 1 ], { secure: true } );
+  }
+
+  /**
+  * RPL_ENDOFWHOIS and RPL_ENDOFWHOWAS resolve the query
+  * @param <string> command: 'WHOIS' or 'WHOWAS'
+  * @param <string> nick: The queried nick
+  * @return <void>
+  */
+  public end( command: string, nick: string ): void {
+    this.finish( this.key( command, nick ) );
+  }
+
+  /**
+  * ERR_NOSUCHNICK and ERR_WASNOSUCHNICK reject the query
+  * @param <string> command: 'WHOIS' or 'WHOWAS'
+  * @param <string> nick: The queried nick
+  * @param <string> reason: The error text sent by the server
+  * @return <void>
+  */
+  public error( command: string, nick: string, reason: string ): void {
+    this.finish( this.key( command, nick ), new Error( `${ nick }: ${ reason }` ) );
+  }
+
+  /**
+  * Settle a pending query
+  * @param <string> key: The query key
+  * @param <Error> err: Reject with the error, resolve without
+  * @return <void>
+  * @private
+  */
+  private finish( key: string, err?: Error ): void {
+    let query = this.pending[ key ];
+
+    if ( !query ) return;
+
+    delete this.pending[ key ];
+    clearTimeout( query.timeout );
+
+    if ( err )
+      query.reject( err );
+    else
+      query.resolve( query.record );
+  }
+
+  /**
+  * Apply fields to every pending query for the nick
+  * RPL_WHOISSERVER is shared by WHOIS and WHOWAS replies
+  * @param <string> nick: The queried nick
+  * @param <any> fields: The fields to apply
+  * @return <void>
+  * @private
+  */
+  private update( nick: string, fields: any ): void {
+    _.each( this.find( nick ), ( query: IWhoisQuery ) => {
+      _.assign( query.record, fields );
+    });
+  }
+
+  /**
+  * @param <string> nick: The queried nick
+  * @return <IWhoisQuery[]>
+  * @private
+  */
+  private find( nick: string ): IWhoisQuery[] {
+    return _.compact( [
+      this.pending[ this.key( 'WHOIS', nick ) ],
+      this.pending[ this.key( 'WHOWAS', nick ) ]
+    ]);
+  }
+
+  /**
+  * @param <string> command: 'WHOIS' or 'WHOWAS'
+  * @param <string> nick: The queried nick
+  * @return <string>
+  * @private
+  */
+  private key( command: string, nick: string ): string {
+    return command + ' ' + this.network.normalize( nick );
+  }
+
+  /**
+  * @param <string> nick: The queried nick
+  * @return <IWhoisRecord>
+  * @private
+  */
+  private record( nick: string ): IWhoisRecord {
+    return {
+      nick: nick,
+      ident: null,
+      hostname: null,
+      realname: null,
+      server: null,
+      server_info: null,
+      idle: null,
+      signon: null,
+      channels: [],
+      operator: false,
+      account: null,
+      secure: false
+    };
+  }
+}
+
+export interface IWhoisRecord {
+  nick: string;
+  ident: string;
+  hostname: string;
+  realname: string;
+  server: string;
+  /**
+  * The server description, or the time the nick signed off for WHOWAS
+  */
+  server_info: string;
+  /**
+  * Seconds the user has been idle
+  */
+  idle: number;
+  signon: Date;
+  channels: string[];
+  operator: boolean;
+  /**
+  * The services account the user is logged in to
+  */
+  account: string;
+  /**
+  * Is the user connected using TLS?
+  */
+  secure: boolean;
+}
+
+interface IWhoisQuery {
+  command: string;
+  record: IWhoisRecord;
+  promise: PromiseLike<IWhoisRecord>;
+  resolve: ( record: IWhoisRecord ) => void;
+  reject: ( err: Error ) => void;
+  timeout: any;
+}
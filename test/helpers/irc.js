@@ -0,0 +1,84 @@
+var Kwirk      = require( '../../index' );
+var Bot        = Kwirk.Bot;
+var Irc        = Kwirk.Irc;
+var Connection = Kwirk.IrcConnection;
+var _          = require( 'lodash' );
+
+/**
+* An IRC network on a connection that is never opened, the lines it sends
+* are collected in sent and lines from the server are given to feed
+* @param <Object> options: Network options, over a disabled network named freenode
+* @param <Bot> bot: The bot of the network, a new one when not given
+* @return <Object> bot, network, connection, sent, feed( line ), emit( event ) and quietly( fn )
+*/
+exports.irc = function( options, bot ) {
+  var context = {
+    bot: bot || new Bot(),
+    sent: []
+  };
+
+  /**
+  * Run a function without the logging of the bot or connection
+  * @param <Function> fn: The function to run
+  * @return <any> What the function returns
+  */
+  context.quietly = function( fn ) {
+    var log = console.log;
+    var logger = context.bot.Logger;
+    var levels = _.pick( logger, 'info', 'warn' );
+
+    console.log = function() {};
+    logger.info = logger.warn = function() {};
+
+    try {
+      return fn();
+    }
+    finally {
+      console.log = log;
+      _.assign( logger, levels );
+    }
+  };
+
+  /**
+  * Handle a line as if the server sent it
+  * @param <string> line: e.g. ':alice!al@example.com PRIVMSG kwirk :hello'
+  * @return <void>
+  */
+  context.feed = function( line ) {
+    context.quietly( function() {
+      context.connection.parseMessage( line );
+    });
+  };
+
+  /**
+  * Emit a network event as the connection does, e.g. 'registered' or 'disconnect'
+  * @param <string> event: The event name
+  * @return <void>
+  */
+  context.emit = function( event ) {
+    context.quietly( function() {
+      context.bot.emit( event + '::' + context.network.name, context.network, context.network.servers[ 0 ] );
+    });
+  };
+
+  context.quietly( function() {
+    context.network = new Irc( context.bot, _.assign( {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ]
+    }, options ) );
+
+    context.connection = new Connection( context.network, context.network.servers[ 0 ], { ping_delay: 120 } );
+  });
+
+  context.network.connection = context.connection;
+  context.connection.nick = 'kwirk';
+  context.connection.send = function( line ) { context.sent.push( line ); };
+
+  return context;
+};
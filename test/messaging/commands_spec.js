@@ -0,0 +1,87 @@
+var Kwirk   = require( '../../index' );
+var Message = require( '../../src/messaging/message' ).Message;
+var Bot     = Kwirk.Bot;
+var Irc     = Kwirk.Irc;
+var assert  = require( 'assert' );
+
+describe( 'Commands', function() {
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ],
+      channels: [
+        {
+          name: '#kwirk'
+        }
+      ]
+    }
+  );
+  var channel = network.findChannel( '#kwirk' );
+  var user = network.addUser( { name: 'alice', ident: 'al', hostname: 'example.com' } );
+  var sent = [];
+
+  network.send = function( line ) { sent.push( line ); };
+  channel.inChannel = true;
+
+  function message( content, target ) {
+    var msg = new Message( {
+      network: network,
+      channel: target ? null : channel,
+      user: user,
+      target: target || channel,
+      nick: 'alice',
+      command: 'PRIVMSG',
+      message: content
+    });
+
+    msg.events.push( target ? 'private' : 'public', 'message' );
+
+    return msg;
+  }
+
+  beforeEach( function() {
+    sent.length = 0;
+  });
+
+  it( 'should bind arguments by the spec', function() {
+    var called, text;
+
+    bot.command( { name: 'kick', aliases: [ 'k' ], args: '<nick> [reason...]' }, function( response, args ) {
+      called = args;
+      text = response.message;
+      response.reply( 'done' );
+    });
+
+    assert.ok( bot.commands.dispatch( message( '!K bob go away' ) ) );
+    assert.deepEqual( called, { nick: 'bob', reason: 'go away' } );
+    assert.strictEqual( text, '!K bob go away' );
+    assert.deepEqual( sent, [ 'PRIVMSG #kwirk :alice: done' ] );
+
+    assert.ok( bot.commands.dispatch( message( '!kick' ) ) );
+    assert.equal( sent[ 1 ], 'NOTICE alice :Usage: !kick <nick> [reason...]' );
+  });
+
+  it( 'should need the trigger only in channels', function() {
+    assert.ok( !bot.commands.dispatch( message( 'help' ) ) );
+    assert.ok( bot.commands.dispatch( message( 'help', user ) ) );
+    assert.ok( !bot.commands.dispatch( message( '!nothing' ) ) );
+  });
+
+  it( 'should check flags and list only permitted commands', function() {
+    bot.command( { name: 'die', flags: 'n' }, function() {
+      throw new Error( 'should not run' );
+    });
+
+    bot.commands.dispatch( message( '!die' ) );
+    bot.commands.dispatch( message( '!help' ) );
+
+    assert.deepEqual( sent, [ 'NOTICE alice :You are not permitted to use !die', 'NOTICE alice :Commands: !help, !kick' ] );
+  });
+});
@@ -0,0 +1,121 @@
+var helper = require( '../helpers/irc' );
+var Kwirk  = require( '../../index' );
+var Bot    = Kwirk.Bot;
+var Bind   = Kwirk.Bind;
+var assert = require( 'assert' );
+var _      = require( 'lodash' );
+
+describe( 'Router', function() {
+  var bot = new Bot();
+  var sent = {};
+  var freenode = network( 'freenode' );
+  var efnet = network( 'efnet' );
+
+  function network( name ) {
+    var irc = helper.irc( { name: name, channels: [ { name: '#kwirk' } ] }, bot );
+
+    sent[ name ] = irc.sent;
+    irc.network.findChannel( '#kwirk' ).inChannel = true;
+    irc.quietly( function() {
+      bot.addNetwork( irc.network );
+    });
+
+    return irc;
+  }
+
+  function bind( options ) {
+    return freenode.quietly( function() {
+      return new Bind( bot, _.assign( {
+        source_network: 'freenode',
+        source_channel: '#kwirk',
+        target_network: 'efnet',
+        target_channel: '#kwirk'
+      }, options ) );
+    });
+  }
+
+  beforeEach( function() {
+    sent.freenode.length = 0;
+    sent.efnet.length = 0;
+  });
+
+  afterEach( function() {
+    delete Bind.binds.freenode;
+    delete Bind.binds.efnet;
+  });
+
+  describe( 'relay_away', function() {
+    it( 'should not relay users going away unless asked to', function() {
+      bind();
+      freenode.network.findChannel( '#kwirk' ).addUser( { name: 'alice', ident: 'al', hostname: 'example.com' } );
+
+      freenode.feed( ':alice!al@example.com AWAY :lunch' );
+      freenode.feed( ':alice!al@example.com PRIVMSG #kwirk :back soon' );
+
+      assert.equal( sent.efnet.length, 1 );
+      assert.ok( /back soon/.test( sent.efnet[ 0 ] ) );
+    });
+
+    it( 'should relay users going away and coming back when asked to', function() {
+      bind( { relay_away: true } );
+      freenode.network.findChannel( '#kwirk' ).addUser( { name: 'bob', ident: 'bob', hostname: 'example.com' } );
+
+      freenode.feed( ':bob!bob@example.com AWAY :lunch' );
+      freenode.feed( ':bob!bob@example.com AWAY' );
+
+      assert.equal( sent.efnet.length, 2 );
+      assert.ok( sent.efnet.every( function( line ) { return /^PRIVMSG #kwirk :.*bob/.test( line ); } ) );
+    });
+  });
+
+  describe( 'commands', function() {
+    it( 'should answer commands without relaying them', function() {
+      bind();
+
+      freenode.feed( ':alice!al@example.com PRIVMSG #kwirk :!help' );
+
+      assert.deepEqual( sent.efnet, [] );
+      assert.ok( sent.freenode.length > 0 );
+
+      freenode.feed( ':alice!al@example.com PRIVMSG #kwirk :help' );
+
+      assert.equal( sent.efnet.length, 1 );
+    });
+  });
+
+  describe( 'mirror_topic', function() {
+    it( 'should mirror topics both ways without echoing our own changes back', function() {
+      bind( { mirror_topic: true } );
+      efnet.network.ircd.isupport( [ 'TOPICLEN=10' ] );
+
+      try {
+        freenode.feed( ':alice!al@example.com TOPIC #kwirk :release on friday' );
+
+        assert.deepEqual( sent.efnet, [ 'TOPIC #kwirk :release on' ] );
+
+        // the server confirms the topic we set, cut to its TOPICLEN
+        efnet.feed( ':kwirk!k@example.com TOPIC #kwirk :release on' );
+
+        assert.deepEqual( sent.freenode, [] );
+        assert.equal( freenode.network.findChannel( '#kwirk' ).topic, 'release on friday' );
+
+        efnet.feed( ':bob!bob@example.com TOPIC #kwirk :monday' );
+
+        assert.deepEqual( sent.freenode, [ 'TOPIC #kwirk :monday' ] );
+        assert.equal( sent.efnet.length, 1 );
+      }
+      finally {
+        efnet.network.ircd.isupport( [ 'TOPICLEN=390' ] );
+      }
+    });
+
+    it( 'should announce topics when not mirroring', function() {
+      bind();
+
+      freenode.feed( ':alice!al@example.com TOPIC #kwirk :release on friday' );
+
+      assert.equal( sent.efnet.length, 1 );
+      assert.ok( /^PRIVMSG #kwirk :.*release on friday/.test( sent.efnet[ 0 ] ) );
+    });
+  });
+});
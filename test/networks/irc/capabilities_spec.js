@@ -0,0 +1,189 @@
+var helper = require( '../../helpers/irc' );
+var Bot    = require( '../../../index' ).Bot;
+var assert = require( 'assert' );
+var _      = require( 'lodash' );
+
+describe( 'Capabilities', function() {
+  var bot = new Bot();
+  var irc, network, caps, sent, feed;
+
+  beforeEach( function() {
+    irc = helper.irc( {}, bot );
+    network = irc.network;
+    caps = network.caps;
+    sent = irc.sent;
+    feed = irc.feed;
+
+    caps.reset();
+  });
+
+  function enabled() {
+    return irc.connection.capabilities.enabled;
+  }
+
+  function requested() {
+    return irc.connection.capabilities.requested;
+  }
+
+  describe( 'LS', function() {
+    it( 'should gather a multi-line listing before requesting', function() {
+      feed( ':server CAP * LS * :multi-prefix sasl=PLAIN,EXTERNAL' );
+
+      assert.deepEqual( sent, [] );
+
+      feed( ':server CAP * LS :server-time example.org/foo=bar' );
+
+      assert.deepEqual( sent, [ 'CAP REQ :multi-prefix server-time' ] );
+      assert.deepEqual( requested(), [ 'multi-prefix', 'server-time' ] );
+      assert.equal( caps.value( 'sasl' ), 'PLAIN,EXTERNAL' );
+      assert.equal( caps.value( 'example.org/foo' ), 'bar' );
+      assert.equal( caps.value( 'multi-prefix' ), '' );
+    });
+
+    it( 'should end negotiation when nothing wanted is offered', function() {
+      feed( ':server CAP * LS :example.org/foo' );
+
+      assert.deepEqual( sent, [ 'CAP END' ] );
+    });
+
+    it( 'should split the request to keep each line under 400 characters', function() {
+      var names = _.map( _.range( 40 ), function( i ) {
+        return 'example.org/capability-' + i;
+      });
+
+      _.each( names, function( name ) {
+        caps.register( name );
+      });
+
+      feed( ':server CAP * LS :' + names.join( ' ' ) );
+
+      var requests = _.filter( sent, function( line ) {
+        return line.indexOf( 'CAP REQ :' ) === 0;
+      });
+
+      assert.ok( requests.length > 1 );
+
+      _.each( requests, function( line ) {
+        assert.ok( line.length - 'CAP REQ :'.length <= 400 );
+      });
+
+      assert.deepEqual( _.flatten( _.map( requests, function( line ) {
+        return line.slice( 'CAP REQ :'.length ).split( ' ' );
+      }) ), names );
+    });
+  });
+
+  describe( 'ACK', function() {
+    it( 'should enable acknowledged capabilities and end negotiation', function() {
+      feed( ':server CAP * LS :multi-prefix server-time' );
+      feed( ':server CAP kwirk ACK :multi-prefix server-time' );
+
+      assert.deepEqual( enabled(), [ 'multi-prefix', 'server-time' ] );
+      assert.deepEqual( requested(), [] );
+      assert.ok( caps.enabled( 'server-time' ) );
+      assert.deepEqual( sent, [ 'CAP REQ :multi-prefix server-time', 'CAP END' ] );
+    });
+
+    it( 'should disable capabilities acknowledged with a leading -', function() {
+      var disabled = 0;
+
+      caps.register( 'away-notify', {
+        disable: function() { disabled++; }
+      });
+
+      feed( ':server CAP * LS :multi-prefix away-notify' );
+      feed( ':server CAP kwirk ACK :multi-prefix away-notify' );
+      feed( ':server CAP kwirk ACK :-away-notify' );
+
+      assert.deepEqual( enabled(), [ 'multi-prefix' ] );
+      assert.ok( !caps.enabled( 'away-notify' ) );
+      assert.equal( disabled, 1 );
+    });
+  });
+
+  describe( 'NAK', function() {
+    it( 'should clear the refused request and end negotiation', function() {
+      feed( ':server CAP * LS :multi-prefix server-time' );
+
+      assert.deepEqual( requested(), [ 'multi-prefix', 'server-time' ] );
+
+      feed( ':server CAP kwirk NAK :multi-prefix server-time' );
+
+      assert.deepEqual( requested(), [] );
+      assert.deepEqual( enabled(), [] );
+      assert.equal( _.last( sent ), 'CAP END' );
+    });
+  });
+
+  describe( 'cap-notify', function() {
+    beforeEach( function() {
+      feed( ':server CAP * LS :cap-notify multi-prefix' );
+      feed( ':server CAP kwirk ACK :cap-notify multi-prefix' );
+      sent.length = 0;
+    });
+
+    it( 'should request wanted capabilities offered by NEW', function() {
+      feed( ':server CAP kwirk NEW :away-notify example.org/foo' );
+
+      assert.deepEqual( sent, [ 'CAP REQ :away-notify' ] );
+      assert.deepEqual( requested(), [ 'away-notify' ] );
+
+      feed( ':server CAP kwirk ACK :away-notify' );
+
+      assert.ok( caps.enabled( 'away-notify' ) );
+      assert.deepEqual( sent, [ 'CAP REQ :away-notify' ] );
+    });
+
+    it( 'should disable capabilities removed by DEL', function() {
+      var disabled = 0;
+
+      caps.register( 'multi-prefix', {
+        disable: function() { disabled++; }
+      });
+
+      feed( ':server CAP kwirk DEL :multi-prefix' );
+
+      assert.ok( !caps.enabled( 'multi-prefix' ) );
+      assert.equal( caps.value( 'multi-prefix' ), undefined );
+      assert.equal( disabled, 1 );
+      assert.deepEqual( sent, [] );
+    });
+  });
+
+  describe( 'enable', function() {
+    it( 'should hold CAP END until the capability is released', function() {
+      var value;
+
+      caps.register( 'example.org/hold', {
+        enable: function( advertised ) { value = advertised; }
+      });
+
+      feed( ':server CAP * LS :multi-prefix example.org/hold=yes' );
+      feed( ':server CAP kwirk ACK :multi-prefix example.org/hold' );
+
+      assert.equal( value, 'yes' );
+      assert.deepEqual( sent, [ 'CAP REQ :multi-prefix example.org/hold' ] );
+
+      caps.release( 'example.org/hold' );
+
+      assert.deepEqual( sent, [ 'CAP REQ :multi-prefix example.org/hold', 'CAP END' ] );
+    });
+
+    it( 'should end negotiation when the enable hook calls done', function() {
+      var finish;
+
+      caps.register( 'example.org/hold', {
+        enable: function( advertised, done ) { finish = done; }
+      });
+
+      feed( ':server CAP * LS :example.org/hold' );
+      feed( ':server CAP kwirk ACK :example.org/hold' );
+
+      assert.deepEqual( sent, [ 'CAP REQ :example.org/hold' ] );
+
+      finish();
+
+      assert.equal( _.last( sent ), 'CAP END' );
+    });
+  });
+});
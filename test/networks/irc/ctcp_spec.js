@@ -0,0 +1,126 @@
+var helper = require( '../../helpers/irc' );
+var Ctcp   = require( '../../../src/networks/irc/ctcp' ).Ctcp;
+var sinon  = require( 'sinon' );
+var assert = require( 'assert' );
+
+describe( 'Ctcp', function() {
+  var network, sent, feed, clock;
+
+  beforeEach( function() {
+    var irc = helper.irc( {
+      ctcp_limit: 2,
+      ctcp_interval: 1000,
+      ctcp_timeout: 500,
+      ctcp_replies: {
+        VERSION: 'KwirK test'
+      }
+    });
+
+    network = irc.network;
+    sent    = irc.sent;
+    feed    = irc.feed;
+    clock   = sinon.useFakeTimers( 1000000 );
+  });
+
+  afterEach( function() {
+    clock.restore();
+  });
+
+  describe( 'messages', function() {
+    it( 'should parse and wrap CTCP messages', function() {
+      assert.ok( Ctcp.is( '\u0001VERSION\u0001' ) );
+      assert.ok( !Ctcp.is( 'VERSION' ) );
+      assert.deepEqual( Ctcp.parse( '\u0001ping 123 456\u0001' ), { command: 'PING', args: '123 456' } );
+      assert.deepEqual( Ctcp.parse( '\u0001TIME' ), { command: 'TIME', args: '' } );
+      assert.equal( Ctcp.wrap( 'ping', '123' ), '\u0001PING 123\u0001' );
+      assert.equal( Ctcp.wrap( 'VERSION' ), '\u0001VERSION\u0001' );
+    });
+  });
+
+  describe( 'requests', function() {
+    it( 'should answer the built in commands with a notice', function() {
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001VERSION\u0001' );
+      feed( ':bob!bob@example.com PRIVMSG #kwirk :\u0001PING 12345\u0001' );
+      clock.tick( 1000 );
+      feed( ':carl!c@example.com PRIVMSG kwirk :\u0001CLIENTINFO\u0001' );
+
+      assert.deepEqual( sent, [
+        'NOTICE alice :\u0001VERSION KwirK test\u0001',
+        'NOTICE bob :\u0001PING 12345\u0001',
+        'NOTICE carl :\u0001CLIENTINFO CLIENTINFO DCC PING SOURCE TIME VERSION\u0001'
+      ]);
+    });
+
+    it( 'should answer registered commands, and ignore unknown ones', function() {
+      network.ctcp.register( 'finger', 'no fingers here' );
+
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001FINGER\u0001' );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001UNKNOWN\u0001' );
+
+      network.ctcp.unregister( 'FINGER' );
+      clock.tick( 1000 );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001FINGER\u0001' );
+
+      assert.deepEqual( sent, [ 'NOTICE alice :\u0001FINGER no fingers here\u0001' ] );
+    });
+
+    it( 'should limit requests before handling them', function() {
+      var handled = 0;
+
+      network.ctcp.register( 'QUIET', function() {
+        handled++;
+        return null;
+      });
+
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001QUIET\u0001' );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001QUIET\u0001' );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001QUIET\u0001' );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001VERSION\u0001' );
+
+      assert.equal( handled, 2 );
+      assert.deepEqual( sent, [] );
+
+      clock.tick( 1000 );
+      feed( ':alice!al@example.com PRIVMSG kwirk :\u0001VERSION\u0001' );
+
+      assert.equal( sent.length, 1 );
+    });
+  });
+
+  describe( 'query', function() {
+    it( 'should resolve with the reply and its latency', function() {
+      var query = network.ctcp.query( 'Alice', 'version' );
+
+      assert.strictEqual( network.ctcp.query( 'alice', 'VERSION' ), query );
+      assert.deepEqual( sent, [ 'PRIVMSG Alice :\u0001VERSION\u0001' ] );
+
+      clock.tick( 250 );
+      feed( ':alice!al@example.com NOTICE kwirk :\u0001VERSION irssi\u0001' );
+
+      return query.then( function( reply ) {
+        assert.deepEqual( reply, { nick: 'Alice', command: 'VERSION', args: 'irssi', latency: 250 } );
+      });
+    });
+
+    it( 'should send the time with a PING', function() {
+      network.ctcp.query( 'bob', 'PING' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG bob :\u0001PING 1000000\u0001' ] );
+
+      feed( ':bob!bob@example.com NOTICE kwirk :\u0001PING 1000000\u0001' );
+    });
+
+    it( 'should reject a query with no reply in ctcp_timeout', function() {
+      var query = network.ctcp.query( 'carl', 'TIME' );
+
+      clock.tick( 500 );
+      feed( ':carl!c@example.com NOTICE kwirk :\u0001TIME now\u0001' );
+
+      return query.then( function() {
+        throw new Error( 'should have been rejected' );
+      }, function( err ) {
+        assert.equal( err.message, 'CTCP TIME to carl timed out on freenode' );
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+var helper = require( '../../../helpers/irc' );
+var Kwirk  = require( '../../../../index' );
+var Dcc    = require( '../../../../src/networks/irc/dcc/dcc' ).Dcc;
+var Bot    = Kwirk.Bot;
+var sinon  = require( 'sinon' );
+var assert = require( 'assert' );
+var path   = require( 'path' );
+var fs     = require( 'fs' );
+var os     = require( 'os' );
+
+describe( 'DCC', function() {
+
+  describe( 'addresses', function() {
+    it( 'should encode IPv4 addresses as an integer', function() {
+      assert.equal( Dcc.encode( '192.168.1.1' ), '3232235777' );
+      assert.equal( Dcc.encode( '::ffff:127.0.0.1' ), '2130706433' );
+      assert.equal( Dcc.encode( '::1' ), '::1' );
+    });
+
+    it( 'should decode integer addresses', function() {
+      assert.equal( Dcc.decode( '3232235777' ), '192.168.1.1' );
+      assert.equal( Dcc.decode( '4294967295' ), '255.255.255.255' );
+      assert.equal( Dcc.decode( '::1' ), '::1' );
+    });
+  });
+
+  describe( 'tokenize', function() {
+    it( 'should keep quoted file names together', function() {
+      assert.deepEqual( Dcc.tokenize( 'SEND "my file.txt" 3232235777 0 1024 12' ), [ 'SEND', 'my file.txt', '3232235777', '0', '1024', '12' ] );
+    });
+  });
+
+  describe( 'transfers', function() {
+    var root = path.join( os.tmpdir(), 'kwirk_dcc_' + process.pid );
+    var bot = new Bot();
+    var alice = client( 'alice' );
+    var bob = client( 'bob' );
+    var source = path.join( root, 'report.txt' );
+    var data = new Buffer( 100000 );
+    var events = [];
+
+    bob.peer = alice;
+
+    for ( var i = 0; i < data.length; i++ )
+      data[ i ] = i % 251;
+
+    before( function() {
+      fs.mkdirSync( root );
+      fs.writeFileSync( source, data );
+    });
+
+    // each side is the bot on its own network, lines one sends the other receives
+    function client( nick ) {
+      var irc = helper.irc( {
+        name: nick,
+        ctcp_limit: 100,
+        dcc_directory: path.join( root, nick ),
+        dcc_allowed: [ '*!*@example.com' ],
+        dcc_auto_accept: true,
+        dcc_host: '127.0.0.1'
+      }, bot );
+      var network = irc.network;
+
+      irc.connection.nick = nick;
+      irc.connection.send = function( line ) {
+        var peer = network.peer;
+
+        events.push( nick + ' ' + line.replace( /\u0001/g, '' ) );
+
+        if ( peer ) irc.quietly( function() {
+          peer.connection.parseMessage( ':' + nick + '!' + nick + '@example.com ' + line );
+        });
+      };
+
+      return network;
+    }
+
+    function received( name ) {
+      return path.join( root, 'bob', name || 'report.txt' );
+    }
+
+    // resolves once both sides of the transfer are complete
+    function completed( done, check ) {
+      var count = 0;
+      var failed = function( network, session, err ) {
+        done( err );
+      };
+
+      bot.on( 'dcc_error::alice', failed );
+      bot.on( 'dcc_error::bob', failed );
+
+      [ 'alice', 'bob' ].forEach( function( name ) {
+        bot.once( 'dcc_complete::' + name, function() {
+          if ( ++count < 2 ) return;
+
+          bot.removeListener( 'dcc_error::alice', failed );
+          bot.removeListener( 'dcc_error::bob', failed );
+
+          try {
+            check();
+            done();
+          }
+          catch ( e ) {
+            done( e );
+          }
+        });
+      });
+    }
+
+    beforeEach( function() {
+      events.length = 0;
+      alice.peer = bob;
+
+      if ( fs.existsSync( received() ) )
+        fs.unlinkSync( received() );
+    });
+
+    after( function() {
+      [ received(), received( 'report (1).txt' ), source ].forEach( function( file ) {
+        if ( fs.existsSync( file ) )
+          fs.unlinkSync( file );
+      });
+
+      fs.rmdirSync( path.join( root, 'bob' ) );
+      fs.rmdirSync( root );
+    });
+
+    it( 'should send a file to a side that connects to us', function( done ) {
+      completed( done, function() {
+        assert.deepEqual( fs.readFileSync( received() ), data );
+        assert.ok( /^alice PRIVMSG bob :DCC SEND report\.txt 2130706433 \d+ 100000$/.test( events[ 0 ] ) );
+      });
+
+      alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should listen for a passive offer and reply with its token', function( done ) {
+      completed( done, function() {
+        var token = events[ 0 ].split( ' ' ).pop();
+
+        assert.deepEqual( fs.readFileSync( received() ), data );
+        assert.ok( /^alice PRIVMSG bob :DCC SEND report\.txt 2130706433 0 100000 \d+$/.test( events[ 0 ] ) );
+        assert.ok( new RegExp( '^bob PRIVMSG alice :DCC SEND report\\.txt 2130706433 [1-9]\\d* 100000 ' + token + '$' ).test( events[ 1 ] ) );
+      });
+
+      alice.dcc.send( 'bob', source, true );
+    });
+
+    it( 'should resume a partial download with RESUME and ACCEPT', function( done ) {
+      fs.writeFileSync( received(), data.slice( 0, 30000 ) );
+
+      bot.once( 'dcc_complete::bob', function( network, transfer ) {
+        assert.equal( transfer.position, 30000 );
+        assert.equal( transfer.transferred, 70000 );
+      });
+
+      completed( done, function() {
+        assert.deepEqual( fs.readFileSync( received() ), data );
+        assert.ok( /^bob PRIVMSG alice :DCC RESUME report\.txt \d+ 30000$/.test( events[ 1 ] ) );
+        assert.ok( /^alice PRIVMSG bob :DCC ACCEPT report\.txt \d+ 30000$/.test( events[ 2 ] ) );
+      });
+
+      alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should keep a file at least as large as the offer', function( done ) {
+      var existing = new Buffer( 'keep me' );
+
+      fs.writeFileSync( received(), Buffer.concat( [ data, existing ] ) );
+
+      completed( done, function() {
+        assert.deepEqual( fs.readFileSync( received() ), Buffer.concat( [ data, existing ] ) );
+        assert.deepEqual( fs.readFileSync( received( 'report (1).txt' ) ), data );
+      });
+
+      alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should reject offers from nicks that are neither an allowed hostmask nor account', function( done ) {
+      var allowed = bob.dcc_allowed;
+      var transfer;
+
+      bob.dcc_allowed = [ 'alice', '*!*@elsewhere.org' ];
+
+      bot.once( 'dcc_rejected::bob', function( network, offer, reason ) {
+        bob.dcc_allowed = allowed;
+        transfer.close();
+
+        try {
+          assert.equal( offer.nick, 'alice' );
+          assert.equal( reason, 'user is not allowed' );
+          done();
+        }
+        catch ( e ) {
+          done( e );
+        }
+      });
+
+      transfer = alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should accept offers from an allowed services account', function( done ) {
+      var allowed = bob.dcc_allowed;
+      var user = bob.addUser( { name: 'alice', ident: 'alice', hostname: 'example.com' } );
+
+      user.account = 'AliceAcct';
+      bob.dcc_allowed = [ 'aliceacct' ];
+
+      completed( function( err ) {
+        bob.dcc_allowed = allowed;
+        bob.removeUser( user );
+        done( err );
+      }, function() {
+        assert.deepEqual( fs.readFileSync( received() ), data );
+      });
+
+      alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should stop receiving at the offered size', function( done ) {
+      var send = alice.connection.send;
+      var ended = 0;
+      var received;
+      var completed = function( network, transfer ) {
+        received = transfer;
+        end();
+      };
+      var failed = function( network, transfer, err ) {
+        received = transfer;
+        received.error = err.message;
+        end();
+      };
+      var end = function() {
+        if ( ++ended < 2 ) return;
+
+        alice.connection.send = send;
+        bot.removeListener( 'dcc_complete::bob', completed );
+        bot.removeListener( 'dcc_error::bob', failed );
+        bot.removeListener( 'dcc_complete::alice', end );
+        bot.removeListener( 'dcc_error::alice', end );
+
+        try {
+          assert.equal( received.error, 'report.txt is larger than the offered 60000 bytes' );
+          assert.equal( received.total, 60000 );
+          assert.ok( !received.complete );
+          done();
+        }
+        catch ( e ) {
+          done( e );
+        }
+      };
+
+      // offer less than the file holds
+      alice.connection.send = function( line ) {
+        send( line.replace( / 100000\u0001$/, ' 60000\u0001' ) );
+      };
+
+      bot.on( 'dcc_complete::bob', completed );
+      bot.on( 'dcc_error::bob', failed );
+      bot.on( 'dcc_complete::alice', end );
+      bot.on( 'dcc_error::alice', end );
+
+      alice.dcc.send( 'bob', source );
+    });
+
+    it( 'should give up on a passive offer nobody answers', function() {
+      var clock = sinon.useFakeTimers();
+      var errors = [];
+      var failed = function( network, session, err ) {
+        errors.push( err.message );
+      };
+
+      alice.peer = null;
+      bot.on( 'dcc_error::alice', failed );
+
+      try {
+        var transfer = alice.dcc.send( 'carl', source, true );
+
+        clock.tick( alice.dcc_timeout - 1 );
+        assert.deepEqual( errors, [] );
+
+        clock.tick( 1 );
+        assert.deepEqual( errors, [ 'carl did not reply' ] );
+        assert.equal( alice.dcc.pending.indexOf( transfer ), -1 );
+      }
+      finally {
+        bot.removeListener( 'dcc_error::alice', failed );
+        clock.restore();
+      }
+    });
+  });
+});
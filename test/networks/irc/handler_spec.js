@@ -0,0 +1,426 @@
+var helper = require( '../../helpers/irc' );
+var sinon  = require( 'sinon' );
+var assert = require( 'assert' );
+
+describe( 'Handler', function() {
+  var irc = helper.irc( {
+    channels: [
+      {
+        name: '#kwirk'
+      },
+      {
+        name: '#other'
+      }
+    ]
+  });
+  var bot = irc.bot;
+  var network = irc.network;
+  var connection = irc.connection;
+  var kwirk = network.findChannel( '#kwirk' );
+  var other = network.findChannel( '#other' );
+  var sent = irc.sent;
+  var feed = irc.feed;
+  var routed = [];
+
+  bot.on( 'message::freenode', function( message ) {
+    routed.push( message );
+  });
+
+  function events( name ) {
+    return routed.filter( function( message ) {
+      return message.events.indexOf( name ) >= 0;
+    });
+  }
+
+  beforeEach( function() {
+    sent.length = 0;
+    routed.length = 0;
+
+    kwirk.inChannel = true;
+    other.inChannel = true;
+  });
+
+  describe( 'NICK', function() {
+    it( 'should rename the user in place, in every channel', function() {
+      var alice = kwirk.addUser( { name: 'alice', ident: 'al', hostname: 'example.com' } );
+
+      other.addUser( alice );
+      kwirk.setStatus( 'alice', 'o', true );
+
+      feed( ':alice!al@example.com NICK :Alicia' );
+
+      assert.equal( alice.name, 'Alicia' );
+      assert.strictEqual( network.findUser( 'alicia' ), alice );
+      assert.ok( kwirk.userInChannel( 'alicia' ) );
+      assert.ok( other.userInChannel( 'alicia' ) );
+      assert.ok( kwirk.isOp( 'alicia' ) );
+      assert.equal( kwirk.status.alice, undefined );
+    });
+
+    it( 'should route a nick event for each shared channel', function() {
+      var bob = kwirk.addUser( { name: 'bob', ident: 'bob', hostname: 'example.com' } );
+
+      feed( ':bob!bob@example.com NICK :robert' );
+
+      assert.equal( events( 'nick' ).length, 1 );
+      assert.strictEqual( routed[ 0 ].channel, kwirk );
+      assert.equal( routed[ 0 ].nick, 'bob' );
+      assert.equal( routed[ 0 ].new_nick, 'robert' );
+      assert.ok( routed[ 0 ].nickChange() );
+    });
+
+    it( 'should replace a stale user holding the new nick', function() {
+      var carl = kwirk.addUser( { name: 'carl', ident: 'c', hostname: 'example.com' } );
+      var stale = network.addUser( { name: 'dave', ident: 'd', hostname: 'example.com' } );
+
+      feed( ':carl!c@example.com NICK :dave' );
+
+      assert.strictEqual( network.findUser( 'dave' ), carl );
+      assert.equal( network.users.indexOf( stale ), -1 );
+    });
+
+    it( 'should follow our own nick', function() {
+      feed( ':kwirk!k@example.com NICK :kwirk_' );
+
+      assert.equal( connection.nick, 'kwirk_' );
+      assert.ok( network.isMe( 'KWIRK_' ) );
+      assert.equal( events( 'nick' ).length, 2 );
+
+      feed( ':kwirk_!k@example.com NICK :kwirk' );
+    });
+
+    it( 'should ignore users we do not know', function() {
+      feed( ':nobody!n@example.com NICK :somebody' );
+
+      assert.equal( routed.length, 0 );
+      assert.equal( network.findUser( 'somebody' ), undefined );
+    });
+  });
+
+  describe( 'QUIT', function() {
+    it( 'should remove the user from every channel and the network', function() {
+      var erin = kwirk.addUser( { name: 'erin', ident: 'e', hostname: 'example.com' } );
+
+      other.addUser( erin );
+      other.setStatus( 'erin', 'v', true );
+
+      feed( ':erin!e@example.com QUIT :Ping timeout' );
+
+      assert.ok( !kwirk.userInChannel( erin ) );
+      assert.ok( !other.userInChannel( erin ) );
+      assert.equal( other.status.erin, undefined );
+      assert.equal( network.findUser( 'erin' ), undefined );
+    });
+
+    it( 'should route a quit event for each channel the user was in', function() {
+      var fred = kwirk.addUser( { name: 'fred', ident: 'f', hostname: 'example.com' } );
+
+      other.addUser( fred );
+
+      feed( ':fred!f@example.com QUIT :Quit: bye' );
+
+      assert.equal( events( 'quit' ).length, 2 );
+      assert.deepEqual( routed.map( function( message ) { return message.channel.name; } ), [ '#kwirk', '#other' ] );
+      assert.ok( routed[ 0 ].quit() );
+
+      routed[ 0 ].formatResponse();
+
+      assert.equal( routed[ 0 ].response, 'fred has quit freenode (Quit: bye)' );
+    });
+
+    it( 'should leave the reason out when none is given', function() {
+      kwirk.addUser( { name: 'gina', ident: 'g', hostname: 'example.com' } );
+
+      feed( ':gina!g@example.com QUIT' );
+      routed[ 0 ].formatResponse();
+
+      assert.equal( routed[ 0 ].response, 'gina has quit freenode' );
+    });
+
+    it( 'should ignore our own quit', function() {
+      feed( ':kwirk!k@example.com QUIT :leaving' );
+
+      assert.equal( routed.length, 0 );
+      assert.ok( kwirk.inChannel );
+    });
+  });
+
+  describe( 'KICK', function() {
+    var clock;
+
+    beforeEach( function() {
+      clock = sinon.useFakeTimers();
+    });
+
+    afterEach( function() {
+      clock.restore();
+      network.auto_rejoin = true;
+    });
+
+    it( 'should remove the victim and route a kick event', function() {
+      var hank = kwirk.addUser( { name: 'hank', ident: 'h', hostname: 'example.com' } );
+
+      other.addUser( hank );
+
+      feed( ':op!o@example.com KICK #kwirk Hank :behave' );
+
+      assert.ok( !kwirk.userInChannel( hank ) );
+      assert.ok( other.userInChannel( hank ) );
+      assert.equal( events( 'kick' ).length, 1 );
+      assert.equal( routed[ 0 ].victim, 'Hank' );
+      assert.ok( routed[ 0 ].kick() );
+
+      routed[ 0 ].formatResponse();
+
+      assert.equal( routed[ 0 ].response, 'Hank was kicked from #kwirk on freenode by op (behave)' );
+    });
+
+    it( 'should rejoin after the rejoin delay when we are kicked', function() {
+      network.rejoin_delay = 5000;
+      kwirk.addUser( { name: 'ivan', ident: 'i', hostname: 'example.com' } );
+      kwirk.setStatus( 'ivan', 'o', true );
+
+      feed( ':op!o@example.com KICK #kwirk kwirk :out' );
+
+      assert.ok( !kwirk.inChannel );
+      assert.equal( kwirk.users.length, 0 );
+      assert.deepEqual( kwirk.status, {} );
+
+      clock.tick( 4999 );
+      assert.deepEqual( sent, [] );
+
+      clock.tick( 1 );
+      assert.deepEqual( sent, [ 'JOIN #kwirk' ] );
+
+      clock.tick( 5000 );
+      assert.equal( sent.length, 1 );
+    });
+
+    it( 'should forget the users we no longer share a channel with when we are kicked', function() {
+      var jack = kwirk.addUser( { name: 'jack', ident: 'j', hostname: 'example.com' } );
+      var jill = kwirk.addUser( { name: 'jill', ident: 'j', hostname: 'example.com' } );
+
+      other.addUser( jill );
+
+      feed( ':op!o@example.com KICK #kwirk kwirk :out' );
+
+      assert.equal( network.findUser( 'jack' ), null );
+      assert.equal( network.findUser( 'jill' ), jill );
+      assert.ok( other.userInChannel( jill ) );
+    });
+
+    it( 'should ignore kicks from channels we do not know', function() {
+      feed( ':op!o@example.com KICK #unknown kwirk :out' );
+
+      assert.equal( network.findChannel( '#unknown' ), null );
+      assert.equal( events( 'kick' ).length, 0 );
+      clock.tick( network.rejoin_delay );
+      assert.deepEqual( sent, [] );
+    });
+
+    it( 'should not rejoin unless auto_rejoin is set', function() {
+      network.auto_rejoin = false;
+
+      feed( ':op!o@example.com KICK #other kwirk' );
+      clock.tick( network.rejoin_delay );
+
+      assert.ok( !other.inChannel );
+      assert.deepEqual( sent, [] );
+    });
+  });
+
+  describe( 'MODE', function() {
+    before( function() {
+      network.ircd.isupport( [ 'PREFIX=(ov)@+', 'CHANMODES=beI,k,l,imnst' ] );
+    });
+
+    it( 'should apply channel modes and route a mode event', function() {
+      kwirk.addUser( { name: 'jane', ident: 'j', hostname: 'example.com' } );
+
+      feed( ':op!o@example.com MODE #kwirk +ok jane secret' );
+
+      assert.ok( kwirk.isOp( 'jane' ) );
+      assert.equal( kwirk.password, 'secret' );
+      assert.equal( events( 'mode' ).length, 1 );
+      assert.deepEqual( routed[ 0 ].modes.map( function( change ) { return change.mode; } ), [ 'o', 'k' ] );
+
+      routed[ 0 ].formatResponse();
+
+      assert.equal( routed[ 0 ].response, 'op sets mode +ok jane secret in #kwirk on freenode' );
+
+      feed( ':op!o@example.com MODE #kwirk -k' );
+
+      assert.equal( kwirk.password, null );
+    });
+
+    it( 'should apply our own user modes without routing them', function() {
+      feed( ':kwirk MODE kwirk :+iw' );
+      feed( ':kwirk MODE kwirk :-w' );
+
+      assert.deepEqual( connection.user_modes, [ 'i' ] );
+      assert.equal( routed.length, 0 );
+    });
+  });
+
+  describe( 'AWAY', function() {
+    var away = [];
+
+    function onAway( network, nick, message ) {
+      away.push( [ nick, message ] );
+    }
+
+    beforeEach( function() {
+      away.length = 0;
+      bot.on( 'away::freenode', onAway );
+    });
+
+    afterEach( function() {
+      bot.removeListener( 'away::freenode', onAway );
+      connection.registered = false;
+      network.away = false;
+      network.away_message = null;
+    });
+
+    it( 'should follow users going away and coming back ( away-notify )', function() {
+      var kate = kwirk.addUser( { name: 'kate', ident: 'k', hostname: 'example.com' } );
+
+      feed( ':kate!k@example.com AWAY :out to lunch' );
+
+      assert.ok( kate.away );
+      assert.equal( kate.away_message, 'out to lunch' );
+      assert.equal( events( 'away' ).length, 1 );
+      assert.ok( routed[ 0 ].away() );
+
+      feed( ':kate!k@example.com AWAY' );
+
+      assert.ok( !kate.away );
+      assert.equal( kate.away_message, null );
+      assert.deepEqual( away, [ [ 'kate', 'out to lunch' ], [ 'kate', null ] ] );
+    });
+
+    it( 'should ignore our own AWAY and users we do not know', function() {
+      feed( ':kwirk!k@example.com AWAY :gone' );
+      feed( ':nobody!n@example.com AWAY :gone' );
+
+      assert.equal( routed.length, 0 );
+      assert.deepEqual( away, [] );
+    });
+
+    it( 'should take the away message from RPL_AWAY', function() {
+      var liam = kwirk.addUser( { name: 'liam', ident: 'l', hostname: 'example.com' } );
+
+      feed( ':asimov.freenode.net 301 kwirk Liam :gone fishing' );
+
+      assert.ok( liam.away );
+      assert.equal( liam.away_message, 'gone fishing' );
+    });
+
+    it( 'should take away and oper status from WHO flags', function() {
+      var mona = kwirk.addUser( { name: 'mona', ident: 'm', hostname: 'example.com' } );
+
+      mona.setAway( 'busy' );
+
+      feed( ':asimov.freenode.net 352 kwirk #kwirk m example.com asimov.freenode.net mona G*@ :0 Mona' );
+
+      assert.ok( mona.away );
+      assert.equal( mona.away_message, 'busy' );
+      assert.ok( mona.oper );
+
+      feed( ':asimov.freenode.net 354 kwirk 152 #kwirk m example.com mona H MonaAcct :Mona' );
+
+      assert.ok( !mona.away );
+      assert.ok( !mona.oper );
+      assert.equal( mona.account, 'MonaAcct' );
+    });
+
+    it( 'should mark us away once the server confirms it', function() {
+      connection.registered = true;
+      network.setAway( 'brb' );
+
+      assert.deepEqual( sent, [ 'AWAY :brb' ] );
+      assert.ok( !network.away );
+
+      feed( ':asimov.freenode.net 306 kwirk :You have been marked as being away' );
+
+      assert.ok( network.away );
+
+      network.back();
+      feed( ':asimov.freenode.net 305 kwirk :You are no longer marked as being away' );
+
+      assert.deepEqual( sent, [ 'AWAY :brb', 'AWAY' ] );
+      assert.ok( !network.away );
+      assert.deepEqual( away, [ [ 'kwirk', 'brb' ], [ 'kwirk', null ] ] );
+    });
+
+    it( 'should set our away message again on a new connection', function() {
+      network.setAway( 'on holiday' );
+
+      assert.deepEqual( sent, [] );
+
+      connection.registered = true;
+      irc.emit( 'registered' );
+
+      assert.equal( sent[ 0 ], 'AWAY :on holiday' );
+
+      network.back();
+      sent.length = 0;
+      irc.emit( 'registered' );
+
+      assert.deepEqual( sent.filter( function( line ) { return /^AWAY/.test( line ); } ), [] );
+    });
+  });
+
+  describe( 'ACCOUNT', function() {
+    before( function() {
+      network.user_db.add( 'nina', { account: 'NinaAcct', flags: 'o' } );
+    });
+
+    beforeEach( function() {
+      kwirk.setStatus( 'kwirk', 'o', true );
+    });
+
+    it( 'should check the flags of a user who logs in ( account-notify )', function() {
+      var nina = kwirk.addUser( { name: 'nina', ident: 'n', hostname: 'example.com' } );
+
+      feed( ':nina!n@example.com ACCOUNT NinaAcct' );
+
+      assert.equal( nina.account, 'NinaAcct' );
+      assert.deepEqual( sent, [ 'MODE #kwirk +o nina' ] );
+
+      feed( ':nina!n@example.com ACCOUNT *' );
+
+      assert.equal( nina.account, null );
+      assert.equal( sent.length, 1 );
+    });
+
+    it( 'should check the flags of a user whose account WHOX gives', function() {
+      var owen = kwirk.addUser( { name: 'owen', ident: 'o', hostname: 'example.com' } );
+
+      owen.account = null;
+      network.user_db.add( 'owen', { account: 'OwenAcct', flags: 'v' } );
+
+      feed( ':asimov.freenode.net 354 kwirk 152 #kwirk o example.com owen H OwenAcct :Owen' );
+      feed( ':asimov.freenode.net 354 kwirk 152 #kwirk o example.com owen H OwenAcct :Owen' );
+
+      assert.deepEqual( sent, [ 'MODE #kwirk +v owen' ] );
+    });
+  });
+
+  describe( 'PRIVMSG', function() {
+    it( 'should route private messages from users we share no channel with, without keeping them', function() {
+      feed( ':stranger!s@example.com PRIVMSG kwirk :hello there' );
+
+      assert.equal( events( 'private' ).length, 1 );
+      assert.equal( routed[ 0 ].user.name, 'stranger' );
+      assert.equal( routed[ 0 ].user.hostname, 'example.com' );
+      assert.equal( routed[ 0 ].content, 'hello there' );
+      assert.equal( network.findUser( 'stranger' ), undefined );
+    });
+
+    it( 'should ignore private messages from servers', function() {
+      feed( ':asimov.freenode.net PRIVMSG kwirk :hello there' );
+
+      assert.equal( routed.length, 0 );
+    });
+  });
+});
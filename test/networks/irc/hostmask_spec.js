@@ -0,0 +1,42 @@
+var Hostmask = require( '../../../src/networks/irc/hostmask' ).Hostmask;
+var assert = require( 'assert' );
+
+describe( 'Hostmask', function() {
+  var user = { nick: 'Kwirk[1]', ident: '~bot', host: 'a.b.example.com', account: 'kwirk', realname: 'KwirK IRC Bot' };
+
+  it( 'should complete partial masks', function() {
+    assert.equal( Hostmask.normalize( 'nick' ), 'nick!*@*' );
+    assert.equal( Hostmask.normalize( 'ident@host' ), '*!ident@host' );
+    assert.equal( Hostmask.normalize( 'nick!ident' ), 'nick!ident@*' );
+    assert.deepEqual( Hostmask.parse( 'nick!ident@host' ), { nick: 'nick', ident: 'ident', host: 'host' } );
+  });
+
+  it( 'should build ban masks in the usual styles', function() {
+    assert.equal( Hostmask.ban( user ), '*!*@a.b.example.com' );
+    assert.equal( Hostmask.ban( user, 'domain' ), '*!*@*.b.example.com' );
+    assert.equal( Hostmask.ban( user, 'ident' ), '*!*bot@*.b.example.com' );
+    assert.equal( Hostmask.ban( user, 'nick' ), 'Kwirk[1]!*@*' );
+    assert.equal( Hostmask.domain( '192.0.2.1' ), '192.0.2.*' );
+    assert.equal( Hostmask.domain( 'user/kwirk' ), 'user/kwirk' );
+    assert.equal( Hostmask.domain( 'example.com' ), 'example.com' );
+  });
+
+  it( 'should match wildcards according to the case mapping', function() {
+    assert.ok( Hostmask.matches( 'kwirk{1}!*@*.EXAMPLE.com', user ) );
+    assert.ok( !Hostmask.matches( 'kwirk{1}!*@*', user, 'ascii' ) );
+    assert.ok( Hostmask.matches( 'kwirk?1?', user ) );
+    assert.ok( !Hostmask.matches( '*!*@example.com', user ) );
+  });
+
+  it( 'should match extended bans', function() {
+    var extban = { prefix: '$', types: [ 'a', 'r', 'x', 'j' ] };
+
+    assert.ok( Hostmask.matches( '$a:KWIRK', user, 'rfc1459', extban ) );
+    assert.ok( Hostmask.matches( '$a', user, 'rfc1459', extban ) );
+    assert.ok( !Hostmask.matches( '$~a', user, 'rfc1459', extban ) );
+    assert.ok( Hostmask.matches( '$r:*IRC*', user, 'rfc1459', extban ) );
+    assert.ok( Hostmask.matches( '$x:*!~bot@*#*bot', user, 'rfc1459', extban ) );
+    assert.ok( !Hostmask.matches( '$j:#banned', user, 'rfc1459', extban ) );
+    assert.ok( Hostmask.matches( '~a:kwirk', user, 'rfc1459', { prefix: '~', types: [ 'a' ] } ) );
+  });
+});
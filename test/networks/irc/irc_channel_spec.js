@@ -0,0 +1,322 @@
+var helper = require( '../../helpers/irc' );
+var Kwirk  = require( '../../../index' );
+var Bot    = Kwirk.Bot;
+var Irc    = Kwirk.Irc;
+var sinon  = require( 'sinon' );
+var assert = require( 'assert' );
+
+describe( 'IrcChannel', function() {
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ],
+      channels: [
+        {
+          name: '#kwirk'
+        }
+      ]
+    }
+  );
+  var channel = network.findChannel( '#kwirk' );
+
+  describe( 'names', function() {
+    before( function() {
+      network.ircd.isupport( [ 'PREFIX=(qaohv)~&@%+' ] );
+    });
+
+    it( 'should parse multi-prefix and userhost-in-names entries', function() {
+      channel.addNames( [ '~&alice!al@example.com', '@+bob', 'carl' ] );
+
+      var users = channel.endNames();
+
+      assert.deepEqual( users.map( function( user ) { return user.name; } ), [ 'alice', 'bob', 'carl' ] );
+      assert.equal( users[ 0 ].ident, 'al' );
+      assert.equal( users[ 0 ].hostname, 'example.com' );
+      assert.deepEqual( channel.status.alice, [ 'q', 'a' ] );
+      assert.deepEqual( channel.status.bob, [ 'o', 'v' ] );
+      assert.deepEqual( channel.status.carl, [] );
+      assert.equal( channel.isOp( 'bob' ), true );
+      assert.equal( channel.isOp( 'carl' ), false );
+    });
+
+    it( 'should replace the roster once the names end', function() {
+      channel.addNames( [ '+carl' ] );
+      channel.addNames( [ 'dave' ] );
+
+      assert.equal( channel.users.length, 3 );
+
+      channel.endNames();
+
+      assert.deepEqual( channel.users.map( function( user ) { return user.name; } ), [ 'carl', 'dave' ] );
+      assert.equal( channel.isVoice( 'carl' ), true );
+      assert.equal( channel.status.alice, undefined );
+    });
+
+    it( 'should keep the users when no names were sent', function() {
+      channel.endNames();
+
+      assert.deepEqual( channel.users.map( function( user ) { return user.name; } ), [ 'carl', 'dave' ] );
+      assert.equal( channel.isVoice( 'carl' ), true );
+    });
+
+    it( 'should forget users who are in no other channel', function() {
+      var other = network.addChannel( { name: '#other' } );
+
+      other.addUser( network.findUser( 'dave' ) );
+
+      channel.addNames( [ 'erin' ] );
+      channel.endNames();
+
+      assert.equal( network.findUser( 'carl' ), undefined );
+      assert.ok( network.findUser( 'dave' ) );
+      assert.ok( network.findUser( 'erin' ) );
+    });
+  });
+
+  describe( 'topic', function() {
+    it( 'should keep a bounded history of earlier topics', function() {
+      network.topic_history = 2;
+
+      channel.updateTopic( 'one', 'alice', 1000 );
+      channel.updateTopic( 'two', 'bob', 2000 );
+      channel.updateTopic( 'two', 'bob', 2000 );
+      channel.updateTopic( 'three', 'carl', 3000 );
+      channel.updateTopic( null, 'dave', 4000 );
+
+      assert.equal( channel.topic, null );
+      assert.equal( channel.topic_setter, 'dave' );
+      assert.deepEqual( channel.topics.map( function( topic ) { return topic.topic; } ), [ 'three', 'two' ] );
+      assert.equal( channel.topics[ 0 ].setter, 'carl' );
+    });
+
+    it( 'should cut a new topic to the TOPICLEN', function() {
+      var sent = [];
+
+      network.send = function( line ) { sent.push( line ); };
+      network.ircd.isupport( [ 'TOPICLEN=5' ] );
+      channel.inChannel = true;
+
+      channel.setTopic( 'a long topic' );
+      channel.setTopic( 'topical' );
+
+      assert.deepEqual( sent, [ 'TOPIC #kwirk :a', 'TOPIC #kwirk :topic' ] );
+    });
+
+    it( 'should cut the topic to TOPICLEN bytes on a whole character', function() {
+      var sent = [];
+
+      network.send = function( line ) { sent.push( line ); };
+      network.ircd.isupport( [ 'TOPICLEN=5' ] );
+      channel.inChannel = true;
+
+      channel.setTopic( 'caf\u00e9s' );
+
+      assert.deepEqual( sent, [ 'TOPIC #kwirk :caf\u00e9' ] );
+
+      network.ircd.isupport( [ 'TOPICLEN=4' ] );
+      channel.setTopic( 'caf\u00e9s' );
+
+      assert.deepEqual( sent, [ 'TOPIC #kwirk :caf\u00e9', 'TOPIC #kwirk :caf' ] );
+    });
+
+    it( 'should keep the topic on one line', function() {
+      var sent = [];
+
+      network.send = function( line ) { sent.push( line ); };
+      network.ircd.isupport( [ 'TOPICLEN=390' ] );
+      channel.inChannel = true;
+
+      channel.setTopic( 'one\r\nQUIT :two' );
+
+      assert.deepEqual( sent, [ 'TOPIC #kwirk :one QUIT :two' ] );
+    });
+  });
+
+  describe( 'lists', function() {
+    var sent = [];
+
+    before( function() {
+      network.send = function( line ) { sent.push( line ); };
+      network.ircd.isupport( [ 'MODES=2', 'EXCEPTS' ] );
+      network.connection = { nick: 'kwirk' };
+      channel.inChannel = true;
+      channel.status.kwirk = [ 'o' ];
+    });
+
+    after( function() {
+      network.connection = null;
+    });
+
+    it( 'should batch bans by the MODES limit', function() {
+      sent.length = 0;
+
+      channel.ban( [ 'a!*@*', 'b!*@*', 'c!*@*' ] );
+      channel.unban( 'a!*@*' );
+
+      assert.deepEqual( sent, [ 'MODE #kwirk +bb a!*@* b!*@*', 'MODE #kwirk +b c!*@*', 'MODE #kwirk -b a!*@*' ] );
+    });
+
+    it( 'should keep lists current from replies and mode changes', function() {
+      channel.addListEntry( 'e', '*!*@friend', 'alice', 1000 );
+      channel.endList( 'e' );
+      channel.addListEntry( 'b', '*!*@spam' );
+      channel.endList( 'b' );
+
+      channel.applyModes( [
+        { adding: true, mode: 'b', param: '*!*@troll', type: 'list' },
+        { adding: false, mode: 'b', param: '*!*@spam', type: 'list' },
+        { adding: true, mode: 'b', param: null, type: 'list' }
+      ], 'bob' );
+
+      assert.deepEqual( channel.bans.map( function( entry ) { return entry.mask; } ), [ '*!*@troll' ] );
+      assert.equal( channel.bans[ 0 ].setter, 'bob' );
+      assert.equal( channel.excepts[ 0 ].mask, '*!*@friend' );
+      assert.deepEqual( channel.invex, [] );
+    });
+  });
+
+  describe( 'modes', function() {
+    var modes = require( '../../../src/networks/irc/modes' ).Modes;
+
+    function apply( mode, params ) {
+      channel.applyModes( modes.parse( mode, params, network.ircd.chanmodes, network.ircd.prefix ), 'op' );
+    }
+
+    before( function() {
+      network.ircd.isupport( [ 'PREFIX=(ohv)@%+', 'CHANMODES=beI,k,l,imnst' ] );
+      channel.status = {};
+      channel.modes = [];
+    });
+
+    it( 'should track the status of each user', function() {
+      apply( '+oh-v', [ 'Alice', 'bob', 'alice' ] );
+
+      assert.deepEqual( channel.status.alice, [ 'o' ] );
+      assert.ok( channel.isOp( 'ALICE' ) );
+      assert.ok( channel.isHalfop( 'alice' ) );
+      assert.ok( channel.isVoice( 'alice' ) );
+      assert.ok( channel.isHalfop( 'bob' ) );
+      assert.ok( !channel.isOp( 'bob' ) );
+
+      apply( '-o', [ 'alice' ] );
+
+      assert.ok( !channel.isVoice( 'alice' ) );
+    });
+
+    it( 'should require ops for halfop when the server has no halfops', function() {
+      network.ircd.isupport( [ 'PREFIX=(ov)@+' ] );
+
+      assert.ok( !channel.isHalfop( 'bob' ) );
+
+      apply( '+o', [ 'bob' ] );
+
+      assert.ok( channel.isHalfop( 'bob' ) );
+    });
+
+    it( 'should keep the key, limit and flags in sync', function() {
+      apply( '+ntkl', [ 'secret', '25' ] );
+
+      assert.deepEqual( channel.modes, [ 'n', 't', 'k', 'l' ] );
+      assert.equal( channel.password, 'secret' );
+      assert.equal( channel.limit, 25 );
+
+      apply( '-kl', [] );
+
+      assert.deepEqual( channel.modes, [ 'n', 't' ] );
+      assert.equal( channel.password, null );
+      assert.equal( channel.limit, null );
+    });
+  });
+
+  describe( 'timed bans', function() {
+    var bans = new Bot();
+    var irc, kwirk, clock;
+
+    // the unban lines sent so far
+    function unbans() {
+      return irc.sent.filter( function( line ) { return /^MODE #kwirk -b /.test( line ); } );
+    }
+
+    beforeEach( function() {
+      clock = sinon.useFakeTimers( 1000000 );
+      irc = helper.irc( { channels: [ { name: '#kwirk' } ] }, bans );
+      kwirk = irc.network.findChannel( '#kwirk' );
+
+      irc.feed( ':kwirk!k@example.com JOIN #kwirk' );
+      irc.feed( ':ChanServ!ChanServ@services. MODE #kwirk +o kwirk' );
+      irc.sent.length = 0;
+    });
+
+    afterEach( function() {
+      irc.emit( 'disconnect' );
+      clock.restore();
+    });
+
+    it( 'should lift a ban once its duration has passed', function() {
+      kwirk.ban( '*!*@spam.example.com', 60000 );
+
+      assert.deepEqual( irc.sent, [ 'MODE #kwirk +b *!*@spam.example.com' ] );
+
+      clock.tick( 59999 );
+      assert.deepEqual( unbans(), [] );
+
+      clock.tick( 1 );
+      assert.deepEqual( unbans(), [ 'MODE #kwirk -b *!*@spam.example.com' ] );
+
+      clock.tick( 60000 );
+      assert.equal( unbans().length, 1 );
+    });
+
+    it( 'should ban by host and kick, then lift the ban', function() {
+      var troll = kwirk.addUser( { name: 'troll', ident: 'tr', hostname: 'troll.example.com' } );
+      var mask = troll.banMask();
+
+      kwirk.kickban( troll, 'go away', 30000 );
+
+      assert.deepEqual( irc.sent, [ 'MODE #kwirk +b ' + mask, 'KICK #kwirk troll :go away' ] );
+
+      clock.tick( 30000 );
+      assert.deepEqual( unbans(), [ 'MODE #kwirk -b ' + mask ] );
+    });
+
+    it( 'should lift expired bans when the names show we are opped again after a reconnect', function() {
+      kwirk.ban( '*!*@spam.example.com', 60000 );
+      clock.tick( 10000 );
+
+      irc.emit( 'disconnect' );
+      clock.tick( 60000 );
+      assert.deepEqual( unbans(), [] );
+
+      irc.feed( ':kwirk!k@example.com JOIN #kwirk' );
+      irc.feed( ':asimov.freenode.net 353 kwirk = #kwirk :@kwirk alice' );
+      irc.feed( ':asimov.freenode.net 366 kwirk #kwirk :End of /NAMES list.' );
+
+      clock.tick( 1 );
+      assert.deepEqual( unbans(), [ 'MODE #kwirk -b *!*@spam.example.com' ] );
+    });
+
+    it( 'should reschedule bans when we are opped after a reconnect', function() {
+      kwirk.ban( '*!*@spam.example.com', 60000 );
+
+      irc.emit( 'disconnect' );
+      irc.feed( ':kwirk!k@example.com JOIN #kwirk' );
+      irc.feed( ':asimov.freenode.net 353 kwirk = #kwirk :kwirk alice' );
+      irc.feed( ':asimov.freenode.net 366 kwirk #kwirk :End of /NAMES list.' );
+
+      clock.tick( 60000 );
+      assert.deepEqual( unbans(), [] );
+
+      irc.feed( ':ChanServ!ChanServ@services. MODE #kwirk +o kwirk' );
+
+      clock.tick( 1 );
+      assert.deepEqual( unbans(), [ 'MODE #kwirk -b *!*@spam.example.com' ] );
+    });
+  });
+});
@@ -3,6 +3,7 @@ var Kwirk  = require( '../../../index' );
 var Bot    = Kwirk.Bot;
 var Server = Kwirk.Server;
 var IRC    = Kwirk.IRC;
+var Irc    = Kwirk.Irc;
 var assert = require( 'assert' );
 
 describe( "IRC", function(){
@@ -221,4 +222,59 @@ describe( "IRC", function(){
     });
 
   }); //end configuration
+
+  describe( 'case mapping', function(){
+    var network = new Irc( bot,
+      {
+        name: 'casemapping',
+        type: 'irc',
+        enable: false,
+        servers: [{
+          host: 'bradbury.freenode.net'
+        }],
+        channels: [{
+          name: '#KwirK'
+        }]
+      }
+    );
+
+    it( 'should find channels regardless of case', function(){
+      assert.equal( network.findChannel( '#kwirk' ), network.findChannel( '#KWIRK' ) );
+      assert.equal( network.findChannel( '#kwirk' ).name, '#KwirK' );
+      assert.equal( network.channelExists( '#kWiRk' ), true );
+    });
+
+    it( 'should use rfc1459 case mapping by default', function(){
+      assert.equal( network.equals( 'Kwirk[away]', 'kwirk{away}' ), true );
+      assert.equal( network.equals( 'kwirk~', 'KWIRK^' ), true );
+    });
+
+    it( 'should follow the CASEMAPPING token', function(){
+      network.ircd.isupport( [ 'CASEMAPPING=strict-rfc1459' ] );
+
+      assert.equal( network.equals( 'kwirk[]', 'KWIRK{}' ), true );
+      assert.equal( network.equals( 'kwirk~', 'kwirk^' ), false );
+
+      network.ircd.isupport( [ 'CASEMAPPING=ascii' ] );
+
+      assert.equal( network.equals( 'kwirk[]', 'kwirk{}' ), false );
+      assert.equal( network.findChannel( '#KWIRK' ).name, '#KwirK' );
+    });
+
+    it( 'should key channel status by the new case mapping', function(){
+      var channel = network.findChannel( '#kwirk' );
+
+      network.ircd.isupport( [ 'CASEMAPPING=rfc1459' ] );
+
+      channel.addUser( { name: 'Kwirk[1]', ident: 'k', hostname: 'example.com' } );
+      channel.setStatus( 'Kwirk[1]', 'o', true );
+
+      assert.equal( channel.isOp( 'kwirk{1}' ), true );
+
+      network.ircd.isupport( [ 'CASEMAPPING=ascii' ] );
+
+      assert.equal( channel.isOp( 'KWIRK[1]' ), true );
+      assert.equal( channel.isOp( 'kwirk{1}' ), false );
+    });
+  });
 });
@@ -0,0 +1,53 @@
+var Kwirk  = require( '../../../index' );
+var Bot    = Kwirk.Bot;
+var Irc    = Kwirk.Irc;
+var assert = require( 'assert' );
+
+describe( 'IrcUser', function() {
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ]
+    }
+  );
+
+  describe( 'who', function() {
+    it( 'should fill in details from WHOX replies', function() {
+      var user = network.addUser( { name: 'alice' } );
+
+      network.who.special( [ 'kwirk', '152', '#kwirk', 'al', 'example.com', 'alice', 'G*@', 'alicia', 'Alice Liddell' ] );
+
+      assert.equal( user.ident, 'al' );
+      assert.equal( user.hostname, 'example.com' );
+      assert.equal( user.account, 'alicia' );
+      assert.equal( user.realname, 'Alice Liddell' );
+      assert.equal( user.away, true );
+      assert.equal( user.oper, true );
+    });
+
+    it( 'should ignore WHOX replies with another token', function() {
+      var user = network.addUser( { name: 'bob' } );
+
+      assert.equal( network.who.special( [ 'kwirk', '7', '#kwirk', 'bo', 'example.com', 'bob', 'G', '0', 'Bob' ] ), null );
+      assert.equal( user.away, false );
+    });
+
+    it( 'should fill in details from WHO replies', function() {
+      var user = network.addUser( { name: 'carl' } );
+
+      network.who.reply( [ 'kwirk', '#kwirk', 'ca', 'example.org', 'asimov.freenode.net', 'carl', 'H', '0 Carl Sagan' ] );
+
+      assert.equal( user.server, 'asimov.freenode.net' );
+      assert.equal( user.realname, 'Carl Sagan' );
+      assert.equal( user.account, null );
+      assert.equal( user.away, false );
+    });
+  });
+});
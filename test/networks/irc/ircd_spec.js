@@ -0,0 +1,85 @@
+
+var Kwirk  = require( '../../../index' );
+var Bot    = Kwirk.Bot;
+var Irc    = Kwirk.Irc;
+var assert = require( 'assert' );
+
+describe( 'Ircd', function() {
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net',
+          port: 7000,
+          ssl: true
+        }
+      ]
+    }
+  );
+  var ircd = network.ircd;
+
+  describe( 'defaults', function() {
+    it( 'should use RFC1459 values before RPL_ISUPPORT', function() {
+      assert.equal( ircd.casemapping, 'rfc1459' );
+      assert.deepEqual( ircd.chantypes, [ '#', '&' ] );
+      assert.deepEqual( ircd.prefix, { modes: [ 'o', 'v' ], symbols: [ '@', '+' ] } );
+      assert.equal( ircd.modes, 3 );
+      assert.equal( ircd.monitor, null );
+    });
+  });
+
+  describe( 'isupport', function() {
+    before( function() {
+      ircd.isupport( [ 'CHANTYPES=#', 'EXCEPTS', 'INVEX', 'CHANMODES=eIbq,k,flj,CFLMPQScgimnprstz', 'CHANLIMIT=#:120', 'PREFIX=(ov)@+', 'MAXLIST=bqeI:100', 'MODES=4', 'NETWORK=freenode', 'KNOCK', 'STATUSMSG=@+', 'CALLERID=g' ] );
+      ircd.isupport( [ 'CASEMAPPING=rfc1459', 'CHARSET=ascii', 'NICKLEN=16', 'CHANNELLEN=50', 'TOPICLEN=390', 'ETRACE', 'CPRIVMSG', 'CNOTICE', 'DEAF=D', 'MONITOR=100', 'FNC', 'TARGMAX=NAMES:1,LIST:1,KICK:1,WHOIS:1,PRIVMSG:4,NOTICE:4,ACCEPT:,MONITOR:' ] );
+    });
+
+    it( 'should parse the network name and lengths', function() {
+      assert.equal( ircd.network_name, 'freenode' );
+      assert.equal( ircd.nicklen, 16 );
+      assert.equal( ircd.topiclen, 390 );
+      assert.equal( ircd.modes, 4 );
+      assert.equal( ircd.monitor, 100 );
+    });
+
+    it( 'should parse channel modes and prefixes', function() {
+      assert.deepEqual( ircd.chanmodes.list, [ 'e', 'I', 'b', 'q' ] );
+      assert.deepEqual( ircd.chanmodes.param, [ 'k' ] );
+      assert.deepEqual( ircd.chanmodes.setparam, [ 'f', 'l', 'j' ] );
+      assert.equal( ircd.prefixSymbol( 'o' ), '@' );
+      assert.equal( ircd.prefixMode( '+' ), 'v' );
+    });
+
+    it( 'should parse target limits', function() {
+      assert.equal( ircd.targets( 'privmsg' ), 4 );
+      assert.equal( ircd.targets( 'MONITOR' ), Infinity );
+      assert.equal( ircd.targets( 'JOIN' ), 1 );
+    });
+
+    it( 'should use CHANTYPES to identify channels', function() {
+      assert.equal( ircd.isChannel( '#kwirk' ), true );
+      assert.equal( ircd.isChannel( '&kwirk' ), false );
+    });
+
+    it( 'should revert negated tokens to defaults', function() {
+      ircd.isupport( [ '-MONITOR' ] );
+
+      assert.equal( ircd.monitor, null );
+      assert.equal( ircd.supports( 'MONITOR' ), false );
+      assert.equal( ircd.supports( 'KNOCK' ), true );
+    });
+
+    it( 'should emit an isupport event', function( done ) {
+      bot.once( 'isupport::freenode', function( net, support ) {
+        assert.equal( support.network, 'Example Net' );
+        done();
+      });
+
+      ircd.isupport( [ 'NETWORK=Example\\x20Net' ] );
+    });
+  });
+});
@@ -0,0 +1,45 @@
+var Modes  = require( '../../../src/networks/irc/modes' ).Modes;
+var assert = require( 'assert' );
+
+describe( 'Modes', function() {
+  var chanmodes = { list: [ 'b', 'e', 'I' ], param: [ 'k' ], setparam: [ 'l' ], flag: [ 'i', 'm', 'n', 's', 't' ] };
+  var prefix = { modes: [ 'o', 'h', 'v' ], symbols: [ '@', '%', '+' ] };
+
+  function summary( changes ) {
+    return changes.map( function( change ) {
+      return ( change.adding ? '+' : '-' ) + change.mode + ( change.param === null ? '' : ' ' + change.param ) + ' ' + change.type;
+    });
+  }
+
+  it( 'should classify modes by CHANMODES and PREFIX', function() {
+    assert.equal( Modes.classify( 'o', chanmodes, prefix ), 'prefix' );
+    assert.equal( Modes.classify( 'b', chanmodes, prefix ), 'list' );
+    assert.equal( Modes.classify( 'k', chanmodes, prefix ), 'param' );
+    assert.equal( Modes.classify( 'l', chanmodes, prefix ), 'setparam' );
+    assert.equal( Modes.classify( 'n', chanmodes, prefix ), 'flag' );
+  });
+
+  it( 'should give parameters only to the modes that take them', function() {
+    var changes = Modes.parse( '+ovnl-lk+b', [ 'alice', 'bob', '10', 'secret', '*!*@spam' ], chanmodes, prefix );
+
+    assert.deepEqual( summary( changes ), [
+      '+o alice prefix',
+      '+v bob prefix',
+      '+n flag',
+      '+l 10 setparam',
+      '-l setparam',
+      '-k secret param',
+      '+b *!*@spam list'
+    ]);
+  });
+
+  it( 'should accept list queries and a key unset without a parameter', function() {
+    assert.deepEqual( summary( Modes.parse( '+b', [], chanmodes, prefix ) ), [ '+b list' ] );
+    assert.deepEqual( summary( Modes.parse( '-k', [], chanmodes, prefix ) ), [ '-k param' ] );
+  });
+
+  it( 'should drop modes missing a required parameter', function() {
+    assert.deepEqual( summary( Modes.parse( '+kt', [], chanmodes, prefix ) ), [ '+t flag' ] );
+    assert.deepEqual( summary( Modes.parse( '+o-l', [], chanmodes, prefix ) ), [ '-l setparam' ] );
+  });
+});
@@ -0,0 +1,150 @@
+var helper  = require( '../../helpers/irc' );
+var Monitor = require( '../../../src/networks/irc/monitor' ).Monitor;
+var sinon   = require( 'sinon' );
+var assert  = require( 'assert' );
+
+describe( 'Monitor', function() {
+  var irc, network, connection, monitor, sent, feed, events, clock;
+
+  function register( tokens ) {
+    network.ircd.isupport( tokens );
+    connection.registered = true;
+    irc.emit( 'registered' );
+  }
+
+  beforeEach( function() {
+    clock      = sinon.useFakeTimers();
+    events     = [];
+    irc        = helper.irc( { ison_interval: 60000 } );
+    network    = irc.network;
+    connection = irc.connection;
+    monitor    = network.monitor;
+    sent       = irc.sent;
+    feed       = irc.feed;
+
+    [ 'online', 'offline' ].forEach( function( name ) {
+      irc.bot.on( name + '::freenode', function( network, nick ) {
+        events.push( name + ' ' + nick );
+      });
+    });
+  });
+
+  afterEach( function() {
+    irc.emit( 'disconnect' );
+    clock.restore();
+  });
+
+  describe( 'MONITOR', function() {
+    it( 'should monitor up to the limit and poll the rest', function() {
+      monitor.watch( [ 'alice', 'bob', 'carl', 'dave', 'erin' ] );
+
+      assert.deepEqual( sent, [] );
+
+      register( [ 'MONITOR=3' ] );
+
+      assert.deepEqual( sent, [ 'MONITOR + alice,bob,carl', 'ISON dave erin' ] );
+    });
+
+    it( 'should poll nicks watched once the list is full', function() {
+      register( [ 'MONITOR=2' ] );
+
+      monitor.watch( [ 'alice', 'Alice', 'bob' ] );
+      monitor.watch( [ 'carl', 'BOB' ] );
+
+      assert.deepEqual( sent, [ 'MONITOR + alice,bob', 'ISON carl' ] );
+      assert.deepEqual( monitor.watched(), [ 'alice', 'bob', 'carl' ] );
+    });
+
+    it( 'should poll nicks the server would not take', function() {
+      register( [ 'MONITOR=10' ] );
+
+      monitor.watch( [ 'alice', 'bob' ] );
+      feed( ':asimov.freenode.net 734 kwirk 1 bob :Monitor list is full.' );
+
+      assert.deepEqual( sent, [ 'MONITOR + alice,bob', 'ISON bob' ] );
+    });
+
+    it( 'should stop monitoring nicks no longer watched', function() {
+      register( [ 'MONITOR=1' ] );
+
+      monitor.watch( [ 'alice', 'bob' ] );
+      monitor.unwatch( [ 'ALICE', 'bob' ] );
+      sent.length = 0;
+
+      clock.tick( 60000 );
+
+      assert.deepEqual( monitor.watched(), [] );
+      assert.deepEqual( sent, [] );
+    });
+  });
+
+  describe( 'ISON', function() {
+    it( 'should poll every nick without MONITOR support', function() {
+      monitor.watch( [ 'alice', 'bob' ] );
+      register( [] );
+
+      assert.deepEqual( sent, [ 'ISON alice bob' ] );
+
+      clock.tick( 59999 );
+      assert.equal( sent.length, 1 );
+
+      clock.tick( 1 );
+      assert.deepEqual( sent, [ 'ISON alice bob', 'ISON alice bob' ] );
+    });
+
+    it( 'should split long polls and match each reply to its nicks', function() {
+      var nicks = [];
+
+      for ( var i = 0; i < 60; i++ )
+        nicks.push( 'watched' + ( i < 10 ? '0' : '' ) + i );
+
+      monitor.watch( nicks );
+      register( [] );
+
+      assert.equal( sent.length, 2 );
+      assert.ok( sent[ 0 ].length <= 'ISON '.length + Monitor.LENGTH );
+      assert.deepEqual( sent.join( ' ' ).replace( /ISON /g, '' ).split( ' ' ), nicks );
+
+      feed( ':asimov.freenode.net 303 kwirk :watched01 WATCHED02' );
+      feed( ':asimov.freenode.net 303 kwirk :watched59' );
+
+      assert.ok( monitor.isOnline( 'watched01' ) );
+      assert.ok( monitor.isOnline( 'watched02' ) );
+      assert.ok( monitor.isOnline( 'watched59' ) );
+      assert.strictEqual( monitor.isOnline( 'watched58' ), false );
+      assert.deepEqual( events.filter( function( event ) { return /^online/.test( event ); } ), [ 'online watched01', 'online watched02', 'online watched59' ] );
+      assert.equal( events.length, 60 );
+    });
+  });
+
+  describe( 'status', function() {
+    it( 'should emit online and offline when the status changes', function() {
+      register( [ 'MONITOR=10' ] );
+      monitor.watch( [ 'alice', 'bob' ] );
+
+      assert.strictEqual( monitor.isOnline( 'alice' ), null );
+
+      feed( ':asimov.freenode.net 730 kwirk :alice!al@example.com,bob!bob@example.com,mallory!m@example.com' );
+      feed( ':asimov.freenode.net 730 kwirk :Alice!al@example.com' );
+      feed( ':asimov.freenode.net 731 kwirk :bob' );
+
+      assert.deepEqual( events, [ 'online alice', 'online bob', 'offline bob' ] );
+      assert.ok( monitor.isOnline( 'ALICE' ) );
+      assert.strictEqual( monitor.isOnline( 'bob' ), false );
+      assert.strictEqual( monitor.isOnline( 'mallory' ), null );
+    });
+
+    it( 'should forget the status when reconnecting', function() {
+      register( [ 'MONITOR=10' ] );
+      monitor.watch( [ 'alice' ] );
+      feed( ':asimov.freenode.net 730 kwirk :alice!al@example.com' );
+
+      irc.emit( 'disconnect' );
+      sent.length = 0;
+      register( [ 'MONITOR=10' ] );
+
+      assert.strictEqual( monitor.isOnline( 'alice' ), null );
+      assert.deepEqual( sent, [ 'MONITOR + alice' ] );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+var Mechanisms = require( '../../../../src/networks/irc/sasl/mechanisms' );
+var assert = require( 'assert' );
+
+describe( 'SASL mechanisms', function() {
+
+  describe( 'PLAIN', function() {
+    it( 'should send the credentials separated by NUL', function() {
+      var plain = new Mechanisms.Plain( 'kwirk', 'secret' );
+
+      assert.equal( plain.respond( new Buffer( 0 ) ).toString(), '\0kwirk\0secret' );
+    });
+  });
+
+  describe( 'EXTERNAL', function() {
+    it( 'should send an empty response', function() {
+      var external = new Mechanisms.External();
+
+      assert.equal( external.respond( new Buffer( 0 ) ).length, 0 );
+    });
+  });
+
+  describe( 'SCRAM-SHA-256', function() {
+    // RFC 7677 section 3
+    var nonce        = 'rOprNGfwEbeRWgbNEkqO';
+    var server_first = 'r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096';
+    var server_final = 'v=6rriTRBi23WpRR/wtup+mMhUZUn/dB5nLTJRsjl95G4=';
+
+    it( 'should follow the RFC 7677 exchange', function() {
+      var scram = new Mechanisms.ScramSha256( 'user', 'pencil', nonce );
+
+      assert.equal( scram.respond( new Buffer( 0 ) ).toString(), 'n,,n=user,r=rOprNGfwEbeRWgbNEkqO' );
+      assert.equal(
+        scram.respond( new Buffer( server_first ) ).toString(),
+        'c=biws,r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,p=dHzbZapWIk4jUhN+Ute9ytag9zjfMHgsqmmiz7AndVQ='
+      );
+      assert.equal( scram.respond( new Buffer( server_final ) ).length, 0 );
+    });
+
+    it( 'should abort when the server signature is wrong', function() {
+      var scram = new Mechanisms.ScramSha256( 'user', 'pencil', nonce );
+
+      scram.respond( new Buffer( 0 ) );
+      scram.respond( new Buffer( server_first ) );
+
+      assert.equal( scram.respond( new Buffer( 'v=bm90IHRoZSBzaWduYXR1cmU=' ) ), null );
+    });
+
+    it( 'should abort when the server nonce does not extend ours', function() {
+      var scram = new Mechanisms.ScramSha256( 'user', 'pencil', nonce );
+
+      scram.respond( new Buffer( 0 ) );
+
+      assert.equal( scram.respond( new Buffer( 'r=somethingelse,s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096' ) ), null );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+var Kwirk  = require( '../../../../index' );
+var SASL   = require( '../../../../src/networks/irc/sasl/sasl' ).SASL;
+var Bot    = Kwirk.Bot;
+var Irc    = Kwirk.Irc;
+var assert = require( 'assert' );
+
+describe( 'SASL', function() {
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ]
+    }
+  );
+  var sent = [];
+  var finished, disconnected;
+
+  network.send = function( line ) { sent.push( line ); };
+  network.disconnect = function() { disconnected++; };
+
+  function sasl( options ) {
+    var authenticator = new SASL( network, options );
+
+    authenticator.start( 'PLAIN,EXTERNAL', function() { finished++; } );
+
+    return authenticator;
+  }
+
+  beforeEach( function() {
+    sent.length  = 0;
+    finished     = 0;
+    disconnected = 0;
+  });
+
+  describe( 'exchange', function() {
+    it( 'should try only the mechanisms the server advertised', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'secret', mechanisms: [ 'scram-sha-256', 'plain' ] } );
+
+      authenticator.authenticate( '+' );
+      authenticator.success();
+
+      assert.deepEqual( sent, [ 'AUTHENTICATE PLAIN', 'AUTHENTICATE ' + new Buffer( '\0kwirk\0secret' ).toString( 'base64' ) ] );
+      assert.equal( authenticator.authenticated, true );
+      assert.equal( finished, 1 );
+    });
+
+    it( 'should send long responses in 400 byte chunks', function() {
+      // 600 bytes encode to exactly 800, so an empty chunk marks the end
+      var authenticator = sasl( { username: 'kwirk', password: new Array( 594 ).join( 'x' ) } );
+
+      authenticator.authenticate( '+' );
+
+      assert.deepEqual( sent.slice( 1 ).map( function( line ) { return line.length - 'AUTHENTICATE '.length; } ), [ 400, 400, 1 ] );
+      assert.equal( sent[ 3 ], 'AUTHENTICATE +' );
+
+      sent.length = 0;
+      authenticator = sasl( { username: 'kwirk', password: new Array( 297 ).join( 'x' ) } );
+      authenticator.authenticate( '+' );
+
+      assert.deepEqual( sent.slice( 1 ).map( function( line ) { return line.length - 'AUTHENTICATE '.length; } ), [ 400, 4 ] );
+    });
+
+    it( 'should wait for the rest of a challenge sent in chunks', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'secret' } );
+      var challenge = new Buffer( new Array( 301 ).join( 'c' ) ).toString( 'base64' );
+      var received;
+
+      authenticator.mechanism.respond = function( data ) {
+        received = data;
+        return new Buffer( 0 );
+      };
+
+      authenticator.authenticate( challenge.slice( 0, 400 ) );
+
+      assert.equal( received, undefined );
+
+      authenticator.authenticate( '+' );
+
+      assert.equal( received.toString(), new Array( 301 ).join( 'c' ) );
+      assert.equal( sent[ sent.length - 1 ], 'AUTHENTICATE +' );
+    });
+
+    it( 'should abort when the mechanism can not answer', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'secret' } );
+
+      authenticator.mechanism.respond = function() { return null; };
+      authenticator.authenticate( '+' );
+
+      assert.equal( sent[ sent.length - 1 ], 'AUTHENTICATE *' );
+    });
+  });
+
+  describe( 'failure', function() {
+    it( 'should finish registering unauthenticated when continuing', function() {
+      var failed = [];
+      var authenticator = sasl( { username: 'kwirk', password: 'wrong', on_failure: 'continue' } );
+
+      bot.once( 'sasl_failed::freenode', function( network, mechanism, reason ) {
+        failed.push( mechanism, reason );
+      });
+
+      authenticator.failure( 'invalid credentials' );
+
+      assert.deepEqual( failed, [ 'PLAIN', 'invalid credentials' ] );
+      assert.equal( authenticator.authenticated, false );
+      assert.equal( finished, 1 );
+      assert.equal( disconnected, 0 );
+    });
+
+    it( 'should try the next mechanism, then continue', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'wrong', mechanisms: [ 'EXTERNAL', 'PLAIN' ], on_failure: 'next' } );
+
+      authenticator.failure( 'no certificate' );
+
+      assert.deepEqual( sent, [ 'AUTHENTICATE EXTERNAL', 'AUTHENTICATE PLAIN' ] );
+      assert.equal( finished, 0 );
+
+      authenticator.failure( 'invalid credentials' );
+
+      assert.equal( finished, 1 );
+      assert.equal( disconnected, 0 );
+    });
+
+    it( 'should skip the mechanisms the server does not support', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'wrong', mechanisms: [ 'EXTERNAL', 'SCRAM-SHA-256', 'PLAIN' ], on_failure: 'next' } );
+
+      authenticator.supported( 'PLAIN' );
+      authenticator.failure( 'unsupported' );
+
+      assert.deepEqual( sent, [ 'AUTHENTICATE EXTERNAL', 'AUTHENTICATE PLAIN' ] );
+    });
+
+    it( 'should disconnect without ending capability negotiation', function() {
+      var authenticator = sasl( { username: 'kwirk', password: 'wrong', on_failure: 'disconnect' } );
+
+      authenticator.failure( 'invalid credentials' );
+      authenticator.success();
+
+      assert.equal( disconnected, 1 );
+      assert.equal( finished, 0 );
+      assert.equal( authenticator.mechanism, null );
+    });
+  });
+});
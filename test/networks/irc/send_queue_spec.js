@@ -0,0 +1,99 @@
+var SendQueue = require( '../../../src/networks/irc/send_queue' ).SendQueue;
+var sinon = require( 'sinon' );
+var assert = require( 'assert' );
+
+describe( 'SendQueue', function() {
+  var network, sent, queue, clock;
+
+  beforeEach( function() {
+    clock   = sinon.useFakeTimers();
+    sent    = [];
+    network = {
+      name: 'testnet',
+      flood_protection: true,
+      flood_burst: 2,
+      flood_interval: 20,
+      send_queue_max: 0,
+      send_queue_overflow: 'drop',
+      send_queue_ttl: 0,
+      normalize: function( name ) { return name.toLowerCase(); },
+      bot: { emit: function() {}, Logger: { warn: function() {} } }
+    };
+    queue = new SendQueue( network, function( line ) { sent.push( line ); } );
+  });
+
+  afterEach( function() {
+    queue.clear();
+    clock.restore();
+  });
+
+  it( 'should send a burst, then hold lines back', function() {
+    queue.push( 'PRIVMSG #a :1' );
+    queue.push( 'PRIVMSG #a :2' );
+    queue.push( 'PRIVMSG #a :3' );
+
+    assert.deepEqual( sent, [ 'PRIVMSG #a :1', 'PRIVMSG #a :2' ] );
+    assert.equal( queue.depth(), 1 );
+
+    clock.tick( 19 );
+    assert.equal( sent.length, 2 );
+
+    clock.tick( 1 );
+    assert.equal( sent.length, 3 );
+    assert.equal( queue.depth(), 0 );
+  });
+
+  it( 'should send immediate lines ahead of the queue', function() {
+    queue.push( 'PRIVMSG #a :1' );
+    queue.push( 'PRIVMSG #a :2' );
+    queue.push( 'PRIVMSG #a :3' );
+    queue.push( 'PONG :irc.test' );
+
+    assert.equal( sent[ 2 ], 'PONG :irc.test' );
+  });
+
+  it( 'should prefer high priority lines and rotate targets', function() {
+    network.flood_burst = 1;
+    queue.clear();
+
+    queue.push( 'PRIVMSG #z :0' );
+    queue.push( 'PRIVMSG #a :1' );
+    queue.push( 'PRIVMSG #a :2' );
+    queue.push( 'PRIVMSG #b :1' );
+    queue.push( 'MODE #a +o kwirk' );
+
+    clock.tick( 80 );
+
+    assert.deepEqual( sent, [ 'PRIVMSG #z :0', 'MODE #a +o kwirk', 'PRIVMSG #a :1', 'PRIVMSG #b :1', 'PRIVMSG #a :2' ] );
+  });
+
+  it( 'should drop the oldest lines of the busiest target when full', function() {
+    network.flood_burst    = 1;
+    network.send_queue_max = 2;
+    queue.clear();
+
+    queue.push( 'PRIVMSG #z :0' );
+    queue.push( 'PRIVMSG #a :1' );
+    queue.push( 'PRIVMSG #b :1' );
+    queue.push( 'PRIVMSG #a :2' );
+
+    assert.equal( queue.depth(), 2 );
+    assert.equal( queue.metrics.dropped, 1 );
+  });
+
+  it( 'should collapse repeated lines when full', function() {
+    network.flood_burst         = 1;
+    network.send_queue_max      = 2;
+    network.send_queue_overflow = 'collapse';
+    queue.clear();
+
+    queue.push( 'PRIVMSG #z :0' );
+    queue.push( 'PRIVMSG #a :same' );
+    queue.push( 'PRIVMSG #b :1' );
+    queue.push( 'PRIVMSG #a :same' );
+
+    assert.equal( queue.depth(), 2 );
+    assert.equal( queue.metrics.collapsed, 1 );
+    assert.equal( queue.metrics.dropped, 0 );
+  });
+});
@@ -0,0 +1,159 @@
+var helper   = require( '../../../helpers/irc' );
+var ChanServ = require( '../../../../src/networks/irc/services/chanserv' ).ChanServ;
+var sinon    = require( 'sinon' );
+var assert   = require( 'assert' );
+
+describe( 'ChanServ', function() {
+  var irc = helper.irc( {
+    chanserv: {
+      attempts: 2
+    },
+    channels: [
+      {
+        name: '#kwirk'
+      },
+      {
+        name: '#other'
+      }
+    ]
+  });
+  var network = irc.network;
+  var kwirk = network.findChannel( '#kwirk' );
+  var other = network.findChannel( '#other' );
+  var sent = irc.sent;
+  var feed = irc.feed;
+  var clock;
+
+  network.ident = 'kw';
+  network.hostname = 'example.com';
+
+  beforeEach( function() {
+    sent.length = 0;
+    clock = sinon.useFakeTimers( 1000000 );
+    kwirk.inChannel = false;
+    other.inChannel = false;
+    kwirk.password = null;
+  });
+
+  afterEach( function() {
+    irc.emit( 'disconnect' );
+    clock.restore();
+  });
+
+  describe( 'dialects', function() {
+    function unban( dialect ) {
+      var service = new ChanServ( network, { dialect: dialect } );
+
+      service.joinFailed( kwirk, 'banned' );
+
+      return sent.pop();
+    }
+
+    it( 'should fill in the templates of each dialect', function() {
+      assert.equal( unban( 'atheme' ), 'PRIVMSG ChanServ :UNBAN #kwirk' );
+      assert.equal( unban( 'anope' ), 'PRIVMSG ChanServ :UNBAN #kwirk' );
+      assert.equal( unban( 'undernet' ), 'PRIVMSG X@channels.undernet.org :UNBAN #kwirk kwirk' );
+      assert.equal( unban( 'quakenet' ), 'PRIVMSG Q@CServe.quakenet.org :UNBANMASK #kwirk kwirk!kw@example.com' );
+    });
+
+    it( 'should let options override a dialect', function() {
+      var service = new ChanServ( network, { dialect: 'anope', invite: 'INVITE {channel} {nick}' } );
+
+      service.joinFailed( kwirk, 'invite_only' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :INVITE #kwirk kwirk' ] );
+    });
+
+    it( 'should invite when there is no way to get the key', function() {
+      var service = new ChanServ( network, { dialect: 'undernet' } );
+
+      service.joinFailed( kwirk, 'bad_key' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG X@channels.undernet.org :INVITE #kwirk' ] );
+    });
+  });
+
+  describe( 'joining', function() {
+    it( 'should ask for help, then rejoin after retry_delay', function() {
+      feed( ':asimov.freenode.net 474 kwirk #kwirk :Cannot join channel (+b)' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :UNBAN #kwirk' ] );
+
+      clock.tick( 3000 );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :UNBAN #kwirk', 'JOIN #kwirk' ] );
+    });
+
+    it( 'should give up after the configured attempts', function() {
+      feed( ':asimov.freenode.net 471 kwirk #other :Cannot join channel (+l)' );
+      feed( ':asimov.freenode.net 471 kwirk #other :Cannot join channel (+l)' );
+      feed( ':asimov.freenode.net 471 kwirk #other :Cannot join channel (+l)' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :INVITE #other', 'PRIVMSG ChanServ :INVITE #other' ] );
+    });
+
+    it( 'should start counting again once joined', function() {
+      feed( ':asimov.freenode.net 473 kwirk #other :Cannot join channel (+i)' );
+      feed( ':asimov.freenode.net 473 kwirk #other :Cannot join channel (+i)' );
+      irc.bot.emit( 'names::freenode', network, other );
+      feed( ':asimov.freenode.net 473 kwirk #other :Cannot join channel (+i)' );
+
+      assert.equal( sent.length, 3 );
+    });
+
+    it( 'should join once invited, without joining again when the rejoin is due', function() {
+      feed( ':asimov.freenode.net 473 kwirk #kwirk :Cannot join channel (+i)' );
+      feed( ':ChanServ!ChanServ@services. INVITE kwirk :#kwirk' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :INVITE #kwirk', 'JOIN #kwirk' ] );
+
+      clock.tick( 3000 );
+
+      assert.equal( sent.length, 2 );
+    });
+
+    it( 'should ignore invites to channels it did not ask for', function() {
+      feed( ':someone!s@example.com INVITE kwirk :#other' );
+      feed( ':someone!s@example.com INVITE kwirk :#elsewhere' );
+
+      assert.deepEqual( sent, [] );
+    });
+  });
+
+  describe( 'GETKEY', function() {
+    it( 'should join with the key the service sends', function() {
+      feed( ':asimov.freenode.net 475 kwirk #kwirk :Cannot join channel (+k)' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :GETKEY #kwirk' ] );
+
+      feed( ':ChanServ!ChanServ@services. NOTICE kwirk :Channel \u0002#KWIRK\u0002 key is: s3cret' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :GETKEY #kwirk', 'JOIN #kwirk s3cret' ] );
+      assert.equal( kwirk.password, 's3cret' );
+    });
+
+    it( 'should only take keys from the service, for channels it asked about', function() {
+      feed( ':asimov.freenode.net 475 kwirk #kwirk :Cannot join channel (+k)' );
+      feed( ':mallory!m@example.com NOTICE kwirk :Channel #kwirk key is: trap' );
+      feed( ':ChanServ!ChanServ@services. NOTICE kwirk :Channel #other key is: other' );
+      feed( ':ChanServ!ChanServ@services. NOTICE kwirk :Channel #kwirker key is: other' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :GETKEY #kwirk' ] );
+      assert.equal( kwirk.password, null );
+    });
+  });
+
+  describe( 'ops', function() {
+    it( 'should ask for ops at most once every retry_delay', function() {
+      var service = new ChanServ( network, { dialect: 'atheme' } );
+
+      service.op( kwirk );
+      service.op( kwirk );
+
+      clock.tick( 3000 );
+      service.op( kwirk );
+
+      assert.deepEqual( sent, [ 'PRIVMSG ChanServ :OP #kwirk', 'PRIVMSG ChanServ :OP #kwirk' ] );
+    });
+  });
+});
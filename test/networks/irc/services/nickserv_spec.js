@@ -0,0 +1,195 @@
+var helper   = require( '../../../helpers/irc' );
+var NickServ = require( '../../../../src/networks/irc/services/nickserv' ).NickServ;
+var sinon    = require( 'sinon' );
+var assert   = require( 'assert' );
+
+describe( 'NickServ', function() {
+  var irc = helper.irc( {
+    nick: 'kwirk',
+    nick_retry: 60000,
+    nickserv: {
+      password: 'hunter2',
+      timeout: 10000
+    },
+    channels: [
+      {
+        name: '#kwirk'
+      }
+    ]
+  });
+  var bot = irc.bot;
+  var network = irc.network;
+  var connection = irc.connection;
+  var services = network.nick_services;
+  var sent = irc.sent;
+  var feed = irc.feed;
+  var quietly = irc.quietly;
+  var clock;
+
+  beforeEach( function() {
+    sent.length = 0;
+    clock = sinon.useFakeTimers();
+    connection.nick = 'kwirk';
+    connection.registered = true;
+    services.options.regain = null;
+    services.options.wait = true;
+  });
+
+  afterEach( function() {
+    irc.emit( 'disconnect' );
+    clock.restore();
+  });
+
+  describe( 'identify', function() {
+    it( 'should identify, and join once the service confirms it', function() {
+      var identified = [];
+
+      bot.once( 'identified::freenode', function( network, account ) {
+        identified.push( account );
+      });
+
+      irc.emit( 'registered' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :IDENTIFY kwirk hunter2' ] );
+
+      feed( ':NickServ!NickServ@services. NOTICE kwirk :You are now identified for kwirk.' );
+
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :IDENTIFY kwirk hunter2', 'JOIN #kwirk' ] );
+      assert.deepEqual( identified, [ 'kwirk' ] );
+      assert.ok( services.identified );
+    });
+
+    it( 'should take the account from RPL_LOGGEDIN', function() {
+      var ready = 0;
+
+      services.start( function() { ready++; } );
+      feed( ':asimov.freenode.net 900 kwirk kwirk!k@example.com KwirkBot :You are now logged in as KwirkBot' );
+
+      assert.equal( ready, 1 );
+      assert.equal( services.account, 'KwirkBot' );
+
+      feed( ':asimov.freenode.net 901 kwirk kwirk!k@example.com :You are now logged out' );
+
+      assert.ok( !services.identified );
+      assert.equal( services.account, null );
+    });
+
+    it( 'should continue when identification fails', function() {
+      var ready = 0;
+      var failed = [];
+
+      bot.once( 'identify_failed::freenode', function( network, text ) {
+        failed.push( text );
+      });
+
+      services.start( function() { ready++; } );
+
+      quietly( function() {
+        feed( ':someone!s@example.com NOTICE kwirk :Invalid password for kwirk.' );
+        assert.equal( ready, 0 );
+
+        feed( ':NickServ!NickServ@services. NOTICE kwirk :Invalid password for kwirk.' );
+      });
+
+      assert.equal( ready, 1 );
+      assert.deepEqual( failed, [ 'Invalid password for kwirk.' ] );
+      assert.ok( !services.identified );
+    });
+
+    it( 'should stop waiting for the service after the timeout', function() {
+      var ready = 0;
+
+      services.start( function() { ready++; } );
+
+      clock.tick( 9999 );
+      assert.equal( ready, 0 );
+
+      quietly( function() {
+        clock.tick( 1 );
+      });
+
+      assert.equal( ready, 1 );
+    });
+
+    it( 'should not wait unless told to', function() {
+      var ready = 0;
+
+      services.options.wait = false;
+      services.start( function() { ready++; } );
+
+      assert.equal( ready, 1 );
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :IDENTIFY kwirk hunter2' ] );
+    });
+  });
+
+  describe( 'recovering our nick', function() {
+    it( 'should ghost the holder, then take the nick', function() {
+      var recovered = [];
+
+      bot.once( 'nick_recovered::freenode', function( network, nick ) {
+        recovered.push( nick );
+      });
+
+      connection.nick = 'kwirk_';
+      services.start( function() {} );
+
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :GHOST kwirk hunter2', 'PRIVMSG NickServ :IDENTIFY kwirk hunter2' ] );
+
+      clock.tick( NickServ.GHOST_DELAY );
+
+      assert.equal( sent[ 2 ], 'NICK kwirk' );
+
+      feed( ':kwirk_!k@example.com NICK :kwirk' );
+
+      assert.deepEqual( recovered, [ 'kwirk' ] );
+      assert.ok( services.onPreferredNick() );
+    });
+
+    it( 'should regain the nick when the service supports it', function() {
+      services.options.regain = 'REGAIN {nick} {password}';
+      connection.nick = 'kwirk_';
+
+      services.recover();
+      services.recover();
+      clock.tick( NickServ.GHOST_DELAY );
+
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :REGAIN kwirk hunter2' ] );
+    });
+
+    it( 'should recover when the nick is in use once registered', function() {
+      connection.nick = 'kwirk_';
+
+      feed( ':asimov.freenode.net 433 kwirk_ someone :Nickname is already in use' );
+      assert.deepEqual( sent, [] );
+
+      feed( ':asimov.freenode.net 433 kwirk_ kwirk :Nickname is already in use' );
+      assert.deepEqual( sent, [ 'PRIVMSG NickServ :GHOST kwirk hunter2' ] );
+    });
+
+    it( 'should take the nick when its holder leaves', function() {
+      network.addUser( { name: 'kwirk', ident: 'imposter', hostname: 'example.com' } );
+      connection.nick = 'kwirk_';
+
+      feed( ':kwirk!imposter@example.com QUIT :gone' );
+
+      assert.deepEqual( sent, [ 'NICK kwirk' ] );
+    });
+
+    it( 'should ask again every nick_retry', function() {
+      connection.nick = 'kwirk_';
+      services.start( function() {} );
+      clock.tick( NickServ.GHOST_DELAY );
+      sent.length = 0;
+
+      clock.tick( 60000 - NickServ.GHOST_DELAY );
+
+      assert.equal( sent[ 0 ], 'PRIVMSG NickServ :GHOST kwirk hunter2' );
+
+      feed( ':kwirk_!k@example.com NICK :kwirk' );
+      sent.length = 0;
+      clock.tick( 120000 );
+
+      assert.deepEqual( sent, [] );
+    });
+  });
+});
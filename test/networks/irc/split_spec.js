@@ -0,0 +1,28 @@
+var Split = require( '../../../src/networks/irc/split' ).Split;
+var assert = require( 'assert' );
+
+describe( 'Split', function() {
+
+  it( 'should split on newlines and skip empty lines', function() {
+    assert.deepEqual( Split.message( 'one\r\ntwo\n\nthree', 100 ), [ 'one', 'two', 'three' ] );
+  });
+
+  it( 'should split at word boundaries', function() {
+    assert.deepEqual( Split.message( 'the quick brown fox', 10 ), [ 'the quick', 'brown fox' ] );
+  });
+
+  it( 'should split long words on character boundaries', function() {
+    var parts = Split.message( 'ééééé', 4 );
+
+    assert.deepEqual( parts, [ 'éé', 'éé', 'é' ] );
+    parts.forEach( function( part ) {
+      assert.ok( Buffer.byteLength( part ) <= 4 );
+    });
+  });
+
+  it( 'should carry colours and styles across a split', function() {
+    var parts = Split.message( '\x02bold \x034,1red text\x0F plain', 16 );
+
+    assert.deepEqual( parts, [ '\x02bold \x034,1red', '\x02\x0304,01text\x0F', 'plain' ] );
+  });
+});
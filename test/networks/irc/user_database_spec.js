@@ -0,0 +1,117 @@
+var Kwirk  = require( '../../../index' );
+var UserDatabase = require( '../../../src/networks/irc/user_database' ).UserDatabase;
+var Bot    = Kwirk.Bot;
+var Irc    = Kwirk.Irc;
+var assert = require( 'assert' );
+var path   = require( 'path' );
+var fs     = require( 'fs' );
+var os     = require( 'os' );
+
+describe( 'UserDatabase', function() {
+  var file = path.join( os.tmpdir(), 'kwirk_users_' + process.pid + '.json' );
+  var bot = new Bot();
+  var network = new Irc( bot,
+    {
+      type: 'irc',
+      name: 'freenode',
+      enable: false,
+      owner: 'boss',
+      user_file: file,
+      servers: [
+        {
+          host: 'asimov.freenode.net'
+        }
+      ],
+      channels: [
+        {
+          name: '#kwirk'
+        }
+      ]
+    }
+  );
+  var db = network.user_db;
+  var alice = network.addUser( { name: 'alice', ident: 'al', hostname: 'home.example.com' } );
+  var bob = network.addUser( { name: 'bob', ident: 'bob', hostname: 'elsewhere.net' } );
+
+  after( function() {
+    if ( fs.existsSync( file ) )
+      fs.unlinkSync( file );
+  });
+
+  it( 'should find users by hostmask or account', function() {
+    db.add( 'alice', { masks: [ '*!*@*.EXAMPLE.com' ], flags: 'v' } );
+    db.add( 'robert', { account: 'Bob' } );
+
+    assert.equal( db.find( alice ), 'alice' );
+    assert.equal( db.find( bob ), null );
+
+    bob.account = 'bob';
+
+    assert.equal( db.find( bob ), 'robert' );
+  });
+
+  it( 'should combine global and channel flags with the flags they imply', function() {
+    db.setFlags( 'alice', '+mk-v', '#Kwirk' );
+
+    assert.equal( db.flags( alice ), 'v' );
+    assert.equal( db.flags( alice, '#kwirk' ), 'movk' );
+    assert.ok( db.hasFlags( alice, 'o', '#kwirk' ) );
+    assert.ok( !db.hasFlags( alice, 'o' ) );
+  });
+
+  it( 'should give the owner owner flags', function() {
+    var boss = network.addUser( { name: 'boss', ident: 'b', hostname: 'h' } );
+
+    assert.equal( db.flags( boss ), '' );
+
+    boss.account = 'boss';
+
+    assert.equal( db.flags( boss ), 'nmov' );
+  });
+
+  it( 'should store the database as JSON', function() {
+    var stored = JSON.parse( fs.readFileSync( file, 'utf8' ) );
+
+    assert.deepEqual( stored.users.alice.channels, { '#Kwirk': 'mk' } );
+
+    db.records = {};
+    db.load();
+
+    assert.equal( db.records.robert.account, 'Bob' );
+  });
+
+  it( 'should give channel flags to records stored without channels', function() {
+    db.records.carl = { masks: [ '*!*@carl.example.com' ], flags: 'v' };
+
+    db.setFlags( 'carl', '+o', '#kwirk' );
+
+    assert.deepEqual( db.records.carl.channels, { '#kwirk': 'o' } );
+  });
+
+  it( 'should not overwrite a file it could not read', function() {
+    var broken = file + '.broken';
+    var error = bot.Logger.error;
+    var other;
+
+    fs.writeFileSync( broken, '{ "users": { "alice": ' );
+    bot.Logger.error = function() {};
+
+    try {
+      other = new UserDatabase( network, broken );
+      other.add( 'mallory', { flags: 'n' } );
+
+      assert.equal( fs.readFileSync( broken, 'utf8' ), '{ "users": { "alice": ' );
+      assert.ok( other.records.mallory );
+
+      fs.writeFileSync( broken, '{ "users": {} }' );
+      other.load();
+      other.add( 'dave' );
+
+      assert.deepEqual( Object.keys( JSON.parse( fs.readFileSync( broken, 'utf8' ) ).users ), [ 'dave' ] );
+    }
+    finally {
+      bot.Logger.error = error;
+      fs.unlinkSync( broken );
+    }
+  });
+});
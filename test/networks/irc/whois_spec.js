@@ -0,0 +1,105 @@
+var helper = require( '../../helpers/irc' );
+var sinon  = require( 'sinon' );
+var assert = require( 'assert' );
+
+describe( 'Whois', function() {
+  var irc = helper.irc( { whois_timeout: 1000 } );
+  var network = irc.network;
+  var sent = irc.sent;
+  var feed = irc.feed;
+
+  beforeEach( function() {
+    sent.length = 0;
+  });
+
+  it( 'should gather the numerics of a WHOIS into one record', function() {
+    var query = network.whois( 'Alice' );
+
+    feed( ':server 311 kwirk alice al example.com * :Alice Smith' );
+    feed( ':server 312 kwirk alice asimov.freenode.net :Nine Moons' );
+    feed( ':server 317 kwirk alice 42 1500000000 :seconds idle, signon time' );
+    feed( ':server 319 kwirk alice :@#kwirk +#other' );
+    feed( ':server 319 kwirk alice :##lobby' );
+    feed( ':server 330 kwirk alice alicea :is logged in as' );
+    feed( ':server 671 kwirk alice :is using a secure connection' );
+    feed( ':server 318 kwirk alice :End of /WHOIS list.' );
+
+    assert.deepEqual( sent, [ 'WHOIS Alice' ] );
+
+    return query.then( function( record ) {
+      assert.equal( record.nick, 'alice' );
+      assert.equal( record.ident, 'al' );
+      assert.equal( record.hostname, 'example.com' );
+      assert.equal( record.realname, 'Alice Smith' );
+      assert.equal( record.server, 'asimov.freenode.net' );
+      assert.equal( record.idle, 42 );
+      assert.equal( record.signon.getTime(), 1500000000000 );
+      assert.deepEqual( record.channels, [ '#kwirk', '#other', '##lobby' ] );
+      assert.equal( record.account, 'alicea' );
+      assert.equal( record.secure, true );
+      assert.equal( record.operator, false );
+    });
+  });
+
+  it( 'should share one request between queries for the same nick', function( done ) {
+    var first = network.whois( 'bob' );
+
+    network.whois( 'BOB', function( err, record ) {
+      assert.ifError( err );
+      assert.equal( sent.length, 1 );
+
+      first.then( function( shared ) {
+        assert.strictEqual( shared, record );
+        done();
+      });
+    });
+
+    feed( ':server 311 kwirk Bob bob example.com * :Bob' );
+    feed( ':server 318 kwirk Bob :End of /WHOIS list.' );
+  });
+
+  it( 'should keep WHOIS and WHOWAS queries apart', function() {
+    var whowas = network.whowas( 'carl' );
+    var whois = network.whois( 'carl' );
+
+    feed( ':server 314 kwirk carl carl old.example.com * :Carl' );
+    feed( ':server 369 kwirk carl :End of WHOWAS' );
+    feed( ':server 401 kwirk carl :No such nick/channel' );
+
+    assert.deepEqual( sent, [ 'WHOWAS carl', 'WHOIS carl' ] );
+
+    return whowas.then( function( record ) {
+      assert.equal( record.hostname, 'old.example.com' );
+
+      return whois.then( function() {
+        throw new Error( 'should have been rejected' );
+      }, function( err ) {
+        assert.equal( err.message, 'carl: No such nick/channel' );
+      });
+    });
+  });
+
+  it( 'should reject a query with no reply in whois_timeout', function() {
+    var clock = sinon.useFakeTimers();
+    var query;
+
+    try {
+      query = network.whois( 'dave' );
+
+      clock.tick( 999 );
+      feed( ':server 311 kwirk dave dave example.com * :Dave' );
+      clock.tick( 1 );
+    }
+    finally {
+      clock.restore();
+    }
+
+    feed( ':server 318 kwirk dave :End of /WHOIS list.' );
+
+    return query.then( function() {
+      throw new Error( 'should have been rejected' );
+    }, function( err ) {
+      assert.equal( err.message, 'WHOIS dave timed out on freenode' );
+    });
+  });
+});
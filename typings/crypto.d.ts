@@ -0,0 +1,6 @@
+/**
+* pbkdf2Sync accepts Buffers, SCRAM salts the password with the decoded server salt
+*/
+declare module "crypto" {
+  export function pbkdf2Sync(password: string | Buffer, salt: string | Buffer, iterations: number, keylen: number, digest: string): Buffer;
+}
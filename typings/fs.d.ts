@@ -0,0 +1,14 @@
+/**
+* createReadStream reads from start to end, DCC resumes a transfer part way through the file
+*/
+declare module "fs" {
+  export function createReadStream(path: string, options?: {
+    flags?: string;
+    encoding?: string;
+    fd?: string;
+    mode?: number;
+    bufferSize?: number;
+    start?: number;
+    end?: number;
+  }): ReadStream;
+}
@@ -0,0 +1,4 @@
+/**
+* Promise is provided by node, but not declared when targeting es5
+*/
+declare var Promise: PromiseConstructorLike;